@@ -0,0 +1,122 @@
+/**
+ * Check Answer Sheet
+ *
+ * Asserts how AnswerSheet records replies to one question: follow-up
+ * messages, corrections ("actually, make that 3"), retractions ("ignore
+ * what I said") and vote mode. No LLM or messages involved. Exits non-zero
+ * on the first failed check.
+ */
+
+import assert from 'node:assert/strict'
+import { AnswerSheet } from '../src/agents/answer-sheet.js'
+
+const alice = '+15550000001'
+const bob = '+15550000002'
+const carol = '+15550000003'
+
+function check(name: string, run: () => void) {
+    run()
+    console.log(`✅ ${name}`)
+}
+
+function checkAnswerSheet() {
+    check('a first reply is added and follow-ups add to a text answer', () => {
+        const sheet = new AnswerSheet('text')
+        assert.equal(sheet.add(alice, 'Italian'), 'added')
+        assert.equal(sheet.add(alice, 'somewhere with a terrace'), 'changed')
+        assert.equal(sheet.get(alice), 'Italian\nsomewhere with a terrace')
+    })
+
+    check('corrections replace the answer', () => {
+        const sheet = new AnswerSheet('text')
+        const corrections: Array<[string, string]> = [
+            ['actually 2', '2'],
+            ['correction: Thai', 'Thai'],
+            ['Actually, make that 3', '3'],
+            ['sorry, I meant the museum', 'the museum'],
+            ['wait - change my answer to Mexican', 'Mexican'],
+            ['make it Sunday', 'Sunday']
+        ]
+        sheet.add(alice, 'Italian')
+        for (const [message, answer] of corrections) {
+            assert.equal(sheet.add(alice, message), 'changed', message)
+            assert.equal(sheet.get(alice), answer, message)
+        }
+    })
+
+    check('a correction with nothing after it is ignored', () => {
+        const sheet = new AnswerSheet('text')
+        sheet.add(alice, 'Italian')
+        assert.equal(sheet.add(alice, 'actually...'), 'ignored')
+        assert.equal(sheet.get(alice), 'Italian')
+    })
+
+    check('"sorry" on its own is part of the answer', () => {
+        const sheet = new AnswerSheet('text')
+        assert.equal(sheet.add(alice, "Sorry I'm late, Italian please"), 'added')
+        assert.equal(sheet.get(alice), "Sorry I'm late, Italian please")
+    })
+
+    check('retractions take the answer back', () => {
+        for (const message of ['never mind', 'Ignore what I said', 'scratch that!', 'forget my last message', 'withdraw my vote']) {
+            const sheet = new AnswerSheet('text')
+            sheet.add(alice, 'Italian')
+            assert.equal(sheet.add(alice, message), 'retracted', message)
+            assert.equal(sheet.has(alice), false, message)
+            assert.equal(sheet.size, 0, message)
+        }
+    })
+
+    check('retracting without an answer, or inside a longer reply, is not a retraction', () => {
+        const sheet = new AnswerSheet('text')
+        assert.equal(sheet.add(alice, 'never mind'), 'ignored')
+        assert.equal(sheet.add(bob, 'Never mind the museum, the beach please'), 'added')
+        assert.equal(sheet.get(bob), 'Never mind the museum, the beach please')
+    })
+
+    check('in vote mode, and with replace, the latest message wins', () => {
+        const votes = new AnswerSheet('vote')
+        votes.add(alice, '1')
+        assert.equal(votes.add(alice, '2'), 'changed')
+        assert.equal(votes.get(alice), '2')
+
+        const text = new AnswerSheet('text')
+        text.add(alice, 'Italian')
+        assert.equal(text.add(alice, 'Thai', new Date(), true), 'changed')
+        assert.equal(text.get(alice), 'Thai')
+    })
+
+    check('answers keep the order people first answered; retracting gives up the place', () => {
+        const sheet = new AnswerSheet('text')
+        sheet.add(alice, 'Italian')
+        sheet.add(bob, 'Thai')
+        sheet.add(carol, 'Mexican')
+        sheet.add(alice, 'actually Greek')
+        assert.deepEqual(sheet.respondents(), [alice, bob, carol])
+
+        sheet.add(bob, 'never mind')
+        sheet.add(bob, 'Indian')
+        assert.deepEqual([...sheet.toMap()], [[alice, 'Greek'], [carol, 'Mexican'], [bob, 'Indian']])
+    })
+
+    check('history keeps every message except blank ones', () => {
+        const sheet = new AnswerSheet('text')
+        const at = new Date('2025-06-06T18:30:00Z')
+        sheet.add(alice, 'Italian', at)
+        assert.equal(sheet.add(alice, '   ', at), 'ignored')
+        sheet.add(alice, 'ignore what I said', at)
+        assert.deepEqual(sheet.history, [
+            { participant: alice, message: 'Italian', timestamp: at },
+            { participant: alice, message: 'ignore what I said', timestamp: at }
+        ])
+    })
+
+    console.log('\n🎉 All answer sheet checks passed')
+}
+
+try {
+    checkAnswerSheet()
+} catch (error) {
+    console.error('❌', error)
+    process.exit(1)
+}
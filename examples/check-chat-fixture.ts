@@ -0,0 +1,66 @@
+/**
+ * Check Chat Fixture
+ *
+ * Builds the sample Messages database and asserts what ChatDatabase reads
+ * from it: group names, members, creation dates and unread counts.
+ * Works on any OS. Exits non-zero on the first failed check.
+ */
+
+import assert from 'node:assert/strict'
+import { ChatDatabase } from '../src/chat-database.js'
+import { createChatDbFixture } from '../src/fixtures/chat-db.js'
+
+function check(name: string, run: () => void) {
+    run()
+    console.log(`✅ ${name}`)
+}
+
+function checkChatFixture() {
+    const db = new ChatDatabase(createChatDbFixture('data/fixtures/chat.db'))
+
+    try {
+        const groups = db.listGroupChats()
+        const group = (chatId: string) => {
+            const found = groups.find(g => g.chatId === chatId)
+            assert.ok(found, `${chatId} is listed`)
+            return found
+        }
+
+        check('only group chats are listed, most recent first', () => {
+            assert.deepEqual(groups.map(g => g.chatId), ['chat100000000000000001', 'chat100000000000000002'])
+        })
+
+        check('names come from the display name, or the members when there is none', () => {
+            assert.equal(group('chat100000000000000001').name, 'Weekend Crew')
+            assert.equal(group('chat100000000000000002').name, '+15550000001, +15550000002, +15550000003 & 1 more')
+        })
+
+        check('members are every handle in the chat', () => {
+            assert.deepEqual(group('chat100000000000000001').members, ['+15550000001', '+15550000002', '+15550000003'])
+            assert.deepEqual(group('chat100000000000000002').members, ['+15550000001', '+15550000002', '+15550000003', 'sam@example.com'])
+        })
+
+        check('creation dates are the first message, last activity the latest', () => {
+            assert.equal(group('chat100000000000000001').createdAt?.toISOString(), '2025-06-06T18:30:00.000Z')
+            assert.equal(group('chat100000000000000001').lastMessageAt?.toISOString(), '2025-06-06T18:34:00.000Z')
+            assert.equal(group('chat100000000000000002').createdAt?.toISOString(), '2025-06-06T18:00:00.000Z')
+            assert.equal(group('chat100000000000000002').lastMessageAt?.toISOString(), '2025-06-06T18:08:00.000Z')
+        })
+
+        check('unread counts only count unread messages from others', () => {
+            assert.equal(group('chat100000000000000001').unreadCount, 2)
+            assert.equal(group('chat100000000000000002').unreadCount, 0)
+        })
+
+        console.log('\n🎉 All chat fixture checks passed')
+    } finally {
+        db.close()
+    }
+}
+
+try {
+    checkChatFixture()
+} catch (error) {
+    console.error('❌', error)
+    process.exit(1)
+}
@@ -0,0 +1,170 @@
+/**
+ * Check Lodging
+ *
+ * Runs LodgingAgent and HolidayPlanner.planTrip against the fixture lodging
+ * provider and asserts the filtering, the chosen option and the cost math.
+ * The other agents are replaced with fixed answers, so no API key or
+ * network is needed. Exits non-zero on the first failed check.
+ */
+
+import assert from 'node:assert/strict'
+import { LodgingAgent, type LodgingProvider, type LodgingSearch } from '../src/agents/lodging-agent.js'
+import { HolidayPlanner } from '../src/agents/holiday-planner.js'
+import { FixtureLodgingProvider } from '../src/fixtures/lodging.js'
+
+const fixture = new FixtureLodgingProvider()
+
+// Only the provider is used; a failed check would fall back to the LLM and fail on the fake key
+const agent = new LodgingAgent('no-key', fixture)
+
+const search = (params: Partial<LodgingSearch>): LodgingSearch => ({
+    city: 'Lake Town',
+    near: 'Old Harbour',
+    checkIn: '2025-06-06',
+    checkOut: '2025-06-08',
+    groupSize: 5,
+    budget: 'medium',
+    ...params
+})
+
+const names = (options: { name: string }[]) => options.map(option => option.name)
+
+async function check(name: string, run: () => Promise<void>) {
+    await run()
+    console.log(`✅ ${name}`)
+}
+
+async function checkLodging() {
+    await check('every option sleeps the whole group', async () => {
+        const result = await agent.findLodging(search({ groupSize: 10 }))
+        // Lakeside sleeps 8 and The Grand has 4 rooms of 2
+        assert.deepEqual(names(result.options), ['Backpackers Hostel', 'Central Hotel'])
+        for (const option of result.options) {
+            const beds = option.rooms.reduce((total, room) => total + room.count * room.sleeps, 0)
+            assert.ok(beds >= 10, `${option.name} sleeps ${beds}`)
+        }
+    })
+
+    await check('options that are too small are dropped', async () => {
+        // Returns rooms for 4 while the agent searches for 5
+        const undersized: LodgingProvider = {
+            name: 'undersized',
+            search: params => fixture.search({ ...params, groupSize: 4 })
+        }
+        const result = await new LodgingAgent('no-key', undersized).findLodging(search({ groupSize: 5 }))
+        assert.deepEqual(names(result.options), ['Backpackers Hostel', 'Lakeside Rental House'])
+    })
+
+    await check('listings outside the budget are left out', async () => {
+        const high = await agent.findLodging(search({ groupSize: 2, budget: 'high' }))
+        assert.ok(!names(high.options).includes('Backpackers Hostel'))
+        assert.ok(names(high.options).includes('The Grand Boutique'))
+
+        const low = await agent.findLodging(search({ groupSize: 2, budget: 'low' }))
+        assert.ok(!names(low.options).includes('The Grand Boutique'))
+        assert.ok(names(low.options).includes('Backpackers Hostel'))
+    })
+
+    await check('the cheapest option per person is chosen', async () => {
+        // 2 nights for 5: hostel 180/night (72pp), Central 3 queens 480 (192pp), Lakeside 420 (168pp), Grand 1020 (408pp)
+        const result = await agent.findLodging(search({ groupSize: 5 }))
+        assert.equal(result.source, 'fixture')
+        assert.equal(result.bestOption.name, 'Backpackers Hostel')
+        assert.equal(result.bestOption.nights, 2)
+        assert.equal(result.bestOption.costPerNight, 180)
+        assert.equal(result.bestOption.estimatedCostPerPerson, 72)
+        assert.equal(result.totalEstimatedCost, 360)
+        for (const option of result.options) {
+            assert.ok(option.estimatedCostPerPerson >= result.bestOption.estimatedCostPerPerson)
+        }
+
+        // Without the hostel, the family suite beats two queen rooms
+        const high = await agent.findLodging(search({ groupSize: 4, budget: 'high' }))
+        assert.equal(high.bestOption.name, 'Central Hotel')
+        assert.equal(high.bestOption.rooms[0].type, 'Family suite')
+        assert.equal(high.bestOption.estimatedCostPerPerson, 140)
+    })
+
+    await check('planTrip charges a night of lodging on every day but the last', async () => {
+        const planner = new HolidayPlanner('no-key', undefined, fixture)
+        stubAgents(planner)
+
+        const trip = await planner.planTrip({
+            city: 'Lake Town',
+            participants: ['a', 'b', 'c', 'd'],
+            startDate: new Date('2025-06-06T10:00:00Z'),
+            days: 3,
+            preferences: { budget: 'medium' }
+        })
+
+        // The hostel's one dorm, 180 a night for 4 people
+        assert.equal(trip.lodging?.bestOption.name, 'Backpackers Hostel')
+        assert.equal(trip.lodging?.bestOption.nights, 2)
+        assert.deepEqual(trip.days.map(day => day.costBreakdown.lodging), [45, 45, 0])
+        assert.equal(trip.costBreakdown.lodging, 90)
+        // Each day: 20 activities + 15 lunch + 25 dinner + 5 travel, plus the night
+        assert.deepEqual(trip.days.map(day => day.costBreakdown.totalPerPerson), [110, 110, 65])
+        assert.equal(trip.costBreakdown.totalPerPerson, 110 + 110 + 65 + 5)
+        assert.equal(trip.costBreakdown.totalForGroup, 290 * 4)
+    })
+
+    console.log('\n🎉 All lodging checks passed')
+}
+
+/**
+ * Replace every agent but lodging with fixed answers
+ */
+function stubAgents(planner: HolidayPlanner) {
+    let visits = 0
+    planner['weatherAgent'].getWeatherForecast = async ({ date }) => ({
+        date: date.toISOString().split('T')[0],
+        temperature: { min: 15, max: 24, avg: 20 },
+        condition: 'Sunny',
+        precipitation: 0,
+        humidity: 50,
+        windSpeed: 10,
+        recommendation: 'Bring sunscreen'
+    })
+    planner['locationAgent'].findLocations = async () => {
+        const place = {
+            name: `Sight ${++visits}`,
+            type: 'park',
+            description: 'A nice place',
+            address: 'Somewhere',
+            estimatedCostPerPerson: 20,
+            activities: ['Walking']
+        }
+        return { locations: [place], bestOption: place, totalEstimatedCost: 80, reasoning: 'Fixed' }
+    }
+    planner['restaurantAgent'].findRestaurants = async ({ mealType }) => {
+        const restaurant = {
+            name: `${mealType} spot`,
+            cuisine: 'Local',
+            priceRange: '$$',
+            estimatedCostPerPerson: mealType === 'dinner' ? 25 : 15,
+            address: 'Somewhere',
+            description: 'Good food',
+            features: []
+        }
+        return { restaurants: [restaurant], bestOption: restaurant, totalEstimatedCost: 0, reasoning: 'Fixed' }
+    }
+    planner['transportationAgent'].findTransportation = async () => {
+        const option = {
+            method: 'Bus',
+            estimatedCostPerPerson: 5,
+            duration: '20 min',
+            description: 'City bus',
+            capacity: 50,
+            features: [],
+            pros: [],
+            cons: []
+        }
+        return { options: [option], bestOption: option, totalEstimatedCost: 20, reasoning: 'Fixed' }
+    }
+    planner['generateTripSummary'] = async () => 'Fixed summary'
+}
+
+checkLodging().catch(error => {
+    console.error('❌', error)
+    process.exit(1)
+})
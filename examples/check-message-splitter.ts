@@ -0,0 +1,89 @@
+/**
+ * Check Message Splitter
+ *
+ * Asserts where splitMessage breaks long messages (blank lines, ━━━
+ * dividers, line breaks, then inside a line) and how parts are numbered.
+ * Exits non-zero on the first failed check.
+ */
+
+import assert from 'node:assert/strict'
+import { splitMessage } from '../src/message-splitter.js'
+
+function check(name: string, run: () => void) {
+    run()
+    console.log(`✅ ${name}`)
+}
+
+/**
+ * Every part fits, marker included
+ */
+function assertFits(parts: string[], maxLength: number) {
+    for (const part of parts) {
+        assert.ok(part.length <= maxLength, `${JSON.stringify(part)} is ${part.length} long`)
+    }
+}
+
+function checkMessageSplitter() {
+    const paragraph = (word: string) => `${word} `.repeat(6).trimEnd()
+    const [first, second, third] = [paragraph('alpha'), paragraph('bravo'), paragraph('delta')]
+    const paragraphs = [first, second, third].join('\n\n')
+
+    check('messages that fit are sent as they are', () => {
+        assert.deepEqual(splitMessage(paragraphs), [paragraphs])
+        assert.deepEqual(splitMessage(paragraphs, { maxLength: 0 }), [paragraphs])
+    })
+
+    check('paragraphs that fit together share a part', () => {
+        // Each paragraph is 35 long; two and the blank line between them (72) fit in the 75 left beside the marker
+        const parts = splitMessage(paragraphs, { maxLength: 85 })
+        assert.deepEqual(parts, [`${first}\n\n${second}\n(1/2)`, `${third}\n(2/2)`])
+        assertFits(parts, 85)
+    })
+
+    check('long messages break at blank lines and are numbered (n/total)', () => {
+        const parts = splitMessage(`\n${paragraphs}\n\n\n`, { maxLength: 50 })
+        assert.deepEqual(parts, [`${first}\n(1/3)`, `${second}\n(2/3)`, `${third}\n(3/3)`])
+        assertFits(parts, 50)
+    })
+
+    check('markParts: false leaves the numbering off', () => {
+        assert.deepEqual(splitMessage(paragraphs, { maxLength: 40, markParts: false }), [first, second, third])
+    })
+
+    check('a heading stays with the divider under it', () => {
+        const date = '📅 DATE\n━━━━━━━━\nSat 6 June'
+        const food = '🍽️ FOOD\n━━━━━━━━\nPizza place'
+        // Packing by line alone would leave "🍽️ FOOD" at the end of the first part
+        assert.deepEqual(splitMessage(`${date}\n${food}`, { maxLength: 40, markParts: false }), [date, food])
+    })
+
+    check('a single oversized line is cut between words', () => {
+        const line = `${'lorem '.repeat(25)}ipsum`
+        const parts = splitMessage(line, { maxLength: 40, markParts: false })
+        assert.ok(parts.length > 1)
+        assertFits(parts, 40)
+        assert.equal(parts.join(' '), line)
+
+        const marked = splitMessage(line, { maxLength: 40 })
+        assertFits(marked, 40)
+        marked.forEach((part, i) => assert.ok(part.endsWith(`\n(${i + 1}/${marked.length})`)))
+    })
+
+    check('a line with no spaces is cut at the limit', () => {
+        const parts = splitMessage('x'.repeat(100), { maxLength: 40, markParts: false })
+        assert.deepEqual(parts.map(part => part.length), [40, 40, 20])
+    })
+
+    check('a limit with no room for the marker is rejected', () => {
+        assert.throws(() => splitMessage(paragraphs, { maxLength: 10 }), /maxLength must be greater than 10/)
+    })
+
+    console.log('\n🎉 All message splitter checks passed')
+}
+
+try {
+    checkMessageSplitter()
+} catch (error) {
+    console.error('❌', error)
+    process.exit(1)
+}
@@ -0,0 +1,116 @@
+/**
+ * Check Poll
+ *
+ * Asserts how poll replies are read into ballots and how plurality,
+ * approval and ranked-choice (instant runoff) polls are counted, including
+ * ties. No messages are sent. Exits non-zero on the first failed check.
+ */
+
+import assert from 'node:assert/strict'
+import { parseBallot, tallyPoll, formatPollTally } from '../src/agents/poll.js'
+
+const options = ['Beach', 'Museum', 'Park', 'Zoo']
+
+/**
+ * One ballot per reply, keyed by a made-up sender
+ */
+const ballots = (...replies: string[]) =>
+    new Map(replies.map((reply, i) => [`+1555000000${i}`, parseBallot(reply, options)]))
+
+function check(name: string, run: () => void) {
+    run()
+    console.log(`✅ ${name}`)
+}
+
+function checkPoll() {
+    check('"2 or 3, not 1" picks 2 and 3 and rules out 1', () => {
+        assert.deepEqual(parseBallot('2 or 3, not 1', options), { choices: [1, 2], excluded: [0] })
+    })
+
+    check('options are read by number word, ordinal or name, in the order given', () => {
+        assert.deepEqual(parseBallot('two and four', options).choices, [1, 3])
+        assert.deepEqual(parseBallot('the zoo, or maybe the beach', options).choices, [3, 0])
+        assert.deepEqual(parseBallot('la segunda, no la primera', options), { choices: [1], excluded: [0] })
+        assert.deepEqual(parseBallot('7', options).choices, [])
+    })
+
+    check('"whatever, not 1" approves everything but 1', () => {
+        assert.deepEqual(parseBallot('whatever, not 1', options), { choices: [1, 2, 3], excluded: [0] })
+    })
+
+    check('ranked ballots keep the order of preference', () => {
+        assert.deepEqual(parseBallot('Museum > Beach > Zoo', options).choices, [1, 0, 3])
+        assert.deepEqual(parseBallot('3, 1, 2', options).choices, [2, 0, 1])
+        assert.deepEqual(parseBallot('second then first', options).choices, [1, 0])
+    })
+
+    check('plurality counts only the first pick', () => {
+        const tally = tallyPoll('plurality', options, ballots('1', '2 or 3', 'beach'))
+        assert.deepEqual(tally.rounds, [{ counts: [2, 1, 0, 0], eliminated: [] }])
+        assert.equal(tally.winner, 0)
+        assert.equal(tally.isTie, false)
+    })
+
+    check('approval counts every pick, and a shared top count is a tie', () => {
+        const tally = tallyPoll('approval', options, ballots('2 or 3, not 1', '1 and 2', 'park'))
+        assert.deepEqual(tally.rounds[0].counts, [1, 2, 2, 0])
+        assert.deepEqual(tally.leaders, [1, 2])
+        assert.equal(tally.winner, null)
+        assert.equal(tally.isTie, true)
+    })
+
+    check('instant runoff drops the last place each round and moves its votes on', () => {
+        const replies = ballots(
+            'Beach', 'Beach', 'Beach',
+            'Museum', 'Museum',
+            'Park > Museum', 'Park > Museum',
+            'Zoo > Museum'
+        )
+        const tally = tallyPoll('ranked', options, replies)
+        assert.deepEqual(tally.rounds, [
+            { counts: [3, 2, 2, 1], eliminated: [3] },
+            { counts: [3, 3, 2, 0], eliminated: [2] },
+            { counts: [3, 5, 0, 0], eliminated: [] }
+        ])
+        assert.equal(tally.winner, 1)
+
+        // The same ballots counted by first pick only
+        assert.equal(tallyPoll('plurality', options, replies).winner, 0)
+
+        assert.ok(formatPollTally('Where to?', tally).endsWith(
+            '🏆 Winner: Museum (after 3 rounds of ranked-choice counting)'
+        ))
+    })
+
+    check('ranked ties end the count, before or after eliminations', () => {
+        const even = tallyPoll('ranked', ['Beach', 'Museum'], ballots('Beach', 'Museum'))
+        assert.equal(even.rounds.length, 1)
+        assert.deepEqual(even.leaders, [0, 1])
+        assert.equal(even.isTie, true)
+
+        // Zoo goes first with no votes; Park's only ballot has no second choice, leaving Beach and Museum level
+        const exhausted = tallyPoll('ranked', options, ballots('Beach', 'Beach', 'Museum', 'Museum', 'Park'))
+        assert.deepEqual(exhausted.rounds.map(round => round.eliminated), [[3], [2], []])
+        assert.deepEqual(exhausted.rounds[2].counts, [2, 2, 0, 0])
+        assert.equal(exhausted.winner, null)
+        assert.equal(exhausted.isTie, true)
+        assert.ok(formatPollTally('Where to?', exhausted).includes('🤝 Tie between Beach and Museum'))
+    })
+
+    check('no readable votes means no winner and no tie', () => {
+        for (const method of ['plurality', 'approval', 'ranked'] as const) {
+            const tally = tallyPoll(method, options, ballots('no idea'))
+            assert.equal(tally.winner, null)
+            assert.equal(tally.isTie, false)
+        }
+    })
+
+    console.log('\n🎉 All poll checks passed')
+}
+
+try {
+    checkPoll()
+} catch (error) {
+    console.error('❌', error)
+    process.exit(1)
+}
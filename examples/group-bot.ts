@@ -0,0 +1,120 @@
+/**
+ * Group Bot: control the planner from the chat
+ *
+ * Listens in GROUP_CHAT_ID, or every group in config/groups.json, and can
+ * plan with several groups at once.
+ *
+ * Commands:
+ *   /plan [city] [today | tomorrow | this weekend | next weekend | next week]
+ *   /status, /skip, /pick 2, /cancel  (while planning)
+ *   /help
+ */
+
+import 'dotenv/config'
+import { IMessageClient } from '../src/client.js'
+import { GroupsConfig } from '../src/groups-config.js'
+import { CommandRouter } from '../src/command-router.js'
+import { PlanningSessionManager } from '../src/agents/planning-session-manager.js'
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Turn "next weekend" etc. into a date range; anything else is the next two weeks
+ */
+function parseWhen(when: string): { startDate: Date; endDate: Date } {
+    const today = new Date()
+    today.setHours(0, 0, 0, 0)
+    const daysUntilSaturday = (6 - today.getDay() + 7) % 7
+    const saturday = new Date(today.getTime() + daysUntilSaturday * DAY)
+
+    switch (when) {
+        case 'today':
+            return { startDate: today, endDate: new Date(today.getTime() + DAY) }
+        case 'tomorrow':
+            return { startDate: new Date(today.getTime() + DAY), endDate: new Date(today.getTime() + 2 * DAY) }
+        case 'this weekend':
+            return { startDate: saturday, endDate: new Date(saturday.getTime() + 2 * DAY) }
+        case 'next weekend':
+            return { startDate: new Date(saturday.getTime() + 7 * DAY), endDate: new Date(saturday.getTime() + 9 * DAY) }
+        case 'next week':
+            return { startDate: new Date(today.getTime() + 7 * DAY), endDate: new Date(today.getTime() + 14 * DAY) }
+        default:
+            return { startDate: today, endDate: new Date(today.getTime() + 14 * DAY) }
+    }
+}
+
+const WHEN_PHRASES = ['today', 'tomorrow', 'this weekend', 'next weekend', 'next week']
+
+async function groupBot() {
+    const geminiKey = process.env.GEMINI_API_KEY!
+    const groups = GroupsConfig.load()
+    // One group from .env, or every configured group
+    const chatIds = process.env.GROUP_CHAT_ID
+        ? [groups.resolve(process.env.GROUP_CHAT_ID)]
+        : groups.list().map(group => group.chatId)
+
+    if (!geminiKey || chatIds.length === 0) {
+        console.error('❌ Missing GEMINI_API_KEY, or GROUP_CHAT_ID in .env / groups in config/groups.json')
+        process.exit(1)
+    }
+
+    const client = new IMessageClient()
+    const admins = process.env.BOT_ADMINS?.split(',').map(a => a.trim()).filter(Boolean)
+    const routers = new Map<string, CommandRouter>()
+
+    const manager = new PlanningSessionManager({
+        apiKey: geminiKey,
+        transport: client,
+        groups,
+        commands: chatId => routers.get(chatId)
+    })
+
+    for (const groupChatId of chatIds) {
+        const group = groups.get(groupChatId)
+        const router = new CommandRouter(client, {
+            chatIds: [groupChatId],
+            participants: group?.participants,
+            admins
+        })
+
+        router.register({
+            name: 'plan',
+            description: 'Start planning an outing',
+            usage: '[city] [this weekend | next weekend | ...]',
+            permission: group?.participants ? 'participants' : 'everyone',
+            handler: async ctx => {
+                if (manager.isRunning(groupChatId)) {
+                    await ctx.reply('⏳ Already planning! Send /status to see progress or /cancel to stop.')
+                    return
+                }
+
+                const input = ctx.rawArgs.toLowerCase()
+                const when = WHEN_PHRASES.find(phrase => input.endsWith(phrase)) ?? ''
+                const city = ctx.rawArgs.slice(0, ctx.rawArgs.length - when.length).trim() || undefined
+
+                await ctx.reply(`🎯 Planning ${city ? `in ${city} ` : ''}${when || 'in the next two weeks'}!`)
+
+                try {
+                    await manager.start(groupChatId, { city, ...parseWhen(when) })
+                } catch (error) {
+                    console.error(`❌ Planning stopped in ${groupChatId}:`, error)
+                    await ctx.reply(`🛑 Planning stopped: ${error instanceof Error ? error.message : error}`)
+                }
+            }
+        })
+
+        routers.set(groupChatId, router)
+        await router.start()
+    }
+
+    console.log(`🤖 Listening for commands in ${chatIds.join(', ')} (Ctrl+C to stop)`)
+
+    process.on('SIGINT', async () => {
+        for (const router of routers.values()) router.stop()
+        await manager.close()
+        await client.close()
+        process.exit(0)
+    })
+}
+
+groupBot().catch(console.error)
@@ -0,0 +1,42 @@
+/**
+ * List iMessage Groups
+ *
+ * Prints every group chat with its name, members and unread count.
+ * Pass --fixture to read a generated sample database instead of your
+ * Messages database (works on any OS).
+ */
+
+import { IMessageClient } from '../src/client.js'
+import { ChatDatabase } from '../src/chat-database.js'
+import { createChatDbFixture } from '../src/fixtures/chat-db.js'
+import type { GroupInfo } from '../src/transport.js'
+
+async function listGroups() {
+    // The fixture is read without IMessageClient, which only runs on macOS
+    const client = process.argv.includes('--fixture')
+        ? new ChatDatabase(createChatDbFixture('data/fixtures/chat.db'))
+        : new IMessageClient()
+
+    try {
+        const groups: GroupInfo[] = client instanceof ChatDatabase
+            ? client.listGroupChats()
+            : await client.listGroups()
+        console.log(`\n💬 Found ${groups.length} group chat(s)\n`)
+
+        for (const group of groups) {
+            console.log(`📱 ${group.name}`)
+            console.log(`   ID: ${group.chatId}`)
+            console.log(`   Members: ${group.members.join(', ') || 'unknown'}`)
+            console.log(`   Created: ${group.createdAt?.toLocaleString() || 'unknown'}`)
+            console.log(`   Last message: ${group.lastMessageAt?.toLocaleString() || 'never'}`)
+            console.log(`   Unread: ${group.unreadCount}\n`)
+        }
+    } finally {
+        await client.close()
+    }
+}
+
+listGroups().catch(error => {
+    console.error('❌ Error:', error)
+    process.exit(1)
+})
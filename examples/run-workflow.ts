@@ -0,0 +1,82 @@
+/**
+ * Run a planning workflow file with a group
+ *
+ * Usage:
+ *   npm run workflow -- workflows/simple-trial.json
+ *
+ * Defaults to workflows/clean-planner.json. Workflows get the group's
+ * city, currency and the next two weeks as {{input.city}},
+ * {{input.currency}}, {{input.startDate}} and {{input.endDate}}.
+ */
+
+import 'dotenv/config'
+import { fileURLToPath } from 'url'
+import { IMessageClient } from '../src/client.js'
+import { GroupsConfig } from '../src/groups-config.js'
+import { InteractiveAgent } from '../src/agents/interactive-agent.js'
+import { ResponsePolicies } from '../src/agents/response-policies.js'
+import { WorkflowEngine, loadWorkflow } from '../src/agents/workflow.js'
+import { createWorkflowActions } from '../src/agents/workflow-actions.js'
+
+const DAY = 24 * 60 * 60 * 1000
+
+export async function runWorkflowExample(path: string) {
+    // Configuration
+    const geminiKey = process.env.GEMINI_API_KEY!
+    const groups = GroupsConfig.load()
+    const group = groups.get(process.env.GROUP_CHAT_ID || '')  // chat ID or alias, e.g. "family"
+    const groupChatId = groups.resolve(process.env.GROUP_CHAT_ID || '')
+    const city = group?.homeCity || 'San Francisco'
+    const participants = group?.participants || ['user1', 'user2', 'user3', 'user4']
+
+    if (!geminiKey || !groupChatId) {
+        console.error('❌ Missing GEMINI_API_KEY or GROUP_CHAT_ID in .env')
+        process.exit(1)
+    }
+
+    const workflow = loadWorkflow(path)
+
+    console.log(`🎯 Holiday Planner - ${workflow.name}\n`)
+    console.log('='.repeat(60) + '\n')
+
+    if (process.env.SERPAPI_KEY) {
+        console.log('🗺️  Serpapi: Enabled (Google Maps + Flights data)\n')
+    } else {
+        console.log('⚠️  Serpapi: Not configured (using AI estimates)\n')
+    }
+
+    const client = new IMessageClient()
+    const interactive = new InteractiveAgent(
+        geminiKey,
+        groupChatId,
+        participants,
+        client,
+        // Placeholder participants never answer, so take the first reply
+        group?.participants ? ResponsePolicies.allParticipants() : ResponsePolicies.firstN(1)
+    )
+    const engine = new WorkflowEngine(
+        interactive,
+        createWorkflowActions(geminiKey, { serpApiKey: process.env.SERPAPI_KEY }),
+        participants
+    )
+
+    try {
+        const startDate = new Date()
+        await engine.run(workflow, {
+            city,
+            currency: group?.currency,
+            startDate: startDate.toISOString(),
+            endDate: new Date(startDate.getTime() + 14 * DAY).toISOString()
+        })
+        process.exit(0)
+
+    } catch (error) {
+        console.error('\n❌ Error:', error)
+        await client.send(groupChatId, '❌ Sorry, something went wrong. Please try again.')
+        process.exit(1)
+    }
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    runWorkflowExample(process.argv[2] || 'workflows/clean-planner.json').catch(console.error)
+}
@@ -0,0 +1,79 @@
+/**
+ * Simulated Planning Session
+ *
+ * Runs the interactive holiday planner against an in-memory group chat,
+ * so the whole flow can be tried without macOS or iMessage.
+ * Every bot message is printed; simulated members answer each question.
+ */
+
+import 'dotenv/config'
+import { InMemoryTransport } from '../src/memory-transport.js'
+import { InteractiveHolidayPlanner } from '../src/agents/interactive-holiday-planner.js'
+
+async function simulatedSession() {
+    const geminiKey = process.env.GEMINI_API_KEY!
+    const groupChatId = 'chat-simulated'
+    const participants = ['+15550000001', '+15550000002', '+15550000003']
+
+    if (!geminiKey) {
+        console.error('❌ Missing GEMINI_API_KEY in .env')
+        process.exit(1)
+    }
+
+    const transport = new InMemoryTransport()
+
+    // Each member answers the questions with their own preferences
+    // ("👍 2" = tapback option 2 instead of typing, "👍" = tapback the question)
+    const answers: Array<Record<string, string>> = [
+        { date: '1', place: 'outdoor park', food: 'Italian', budget: 'MEDIUM', confirm: 'YES' },
+        { date: '👍 2', place: 'museum', food: 'Japanese', budget: 'LOW', confirm: '👍' },
+        { date: '1', place: 'beach', food: 'Mexican', budget: 'MEDIUM', confirm: 'NO' }
+    ]
+
+    transport.addGroup(groupChatId, 'Simulated Crew', participants.map((handle, i) => ({
+        handle,
+        delay: 200 * (i + 1),
+        respond: (text: string) => {
+            console.log(`\n💬 [bot → ${groupChatId}] ${text.slice(0, 80)}...`)
+            const { date, confirm } = answers[i]
+            if (date.startsWith('👍')) {
+                if (text.startsWith(`${date.slice(2).trim()}. `)) return { react: 'like' as const }
+            } else if (text.includes('1, 2, or 3')) {
+                return date
+            }
+            if (text.includes('What kind of place')) return answers[i].place
+            if (text.includes('What kind of food')) return answers[i].food
+            if (text.includes('budget per person')) return answers[i].budget
+            if (text.includes('YES or NO')) return confirm === '👍' ? { react: 'like' as const } : confirm
+            return null
+        }
+    })))
+
+    const planner = new InteractiveHolidayPlanner({
+        apiKey: geminiKey,
+        groupChatId,
+        participants,
+        transport
+    })
+
+    const start = new Date()
+    const end = new Date(start.getTime() + 14 * 24 * 60 * 60 * 1000)
+
+    try {
+        const result = await planner.startPlanning({
+            city: 'San Francisco',
+            participants,
+            startDate: start,
+            endDate: end
+        })
+
+        console.log('\n📋 Conversation log:')
+        result.conversationLog.forEach(line => console.log(`   ${line}`))
+        console.log(`\n📤 Bot sent ${transport.messagesTo(groupChatId).length} messages`)
+    } finally {
+        await planner.close()
+        await transport.close()
+    }
+}
+
+simulatedSession().catch(console.error)
@@ -0,0 +1,107 @@
+import type { GroupResponse } from './interactive-agent.js'
+
+/**
+ * - vote: each message replaces the last one (latest vote wins)
+ * - text: follow-up messages are added to the answer, unless they correct it
+ */
+export type AnswerMode = 'vote' | 'text'
+
+export type AnswerChange = 'added' | 'changed' | 'retracted' | 'ignored'
+
+// "never mind", "scratch that", "ignore my last message", "ignore what I said", ...
+const RETRACTION = /^\s*(never\s?mind|nvm|scratch that|(ignore|forget) (that|what i (just )?said|my (last )?(message|answer|vote))|(cancel|withdraw|remove) my (answer|vote)|i retract)\b[\s.!]*$/i
+
+// "actually 2", "correction: Italian", "change my vote to 3", "sorry, I meant 2", "actually, make that 3", ...
+// "sorry" and "wait" only count before one of these ("Sorry I'm late, Italian please" is an answer)
+const CORRECTION = /^\s*((sorry|wait)[\s,:;.!-]+)?((actually|correction|i meant|make (it|that)|change (it|that|my (answer|vote)) to)\b[\s,:;.!-]*)+/i
+
+/**
+ * Answer Sheet - Everyone's current answer to one question
+ *
+ * Handles people changing their mind ("actually 2"), taking an answer back
+ * ("never mind") and answering over several messages.
+ */
+export class AnswerSheet {
+    private mode: AnswerMode
+    private answers: Map<string, string> = new Map()
+    private order: string[] = []
+    readonly history: GroupResponse[] = []
+
+    constructor(mode: AnswerMode = 'text') {
+        this.mode = mode
+    }
+
+    /**
+     * Apply a message from a participant
+     *
+     * @param replace - Replace any earlier answer, even in text mode
+     */
+    add(participant: string, text: string, timestamp: Date = new Date(), replace: boolean = false): AnswerChange {
+        const trimmed = text.trim()
+        if (!trimmed) return 'ignored'
+
+        this.history.push({ participant, message: text, timestamp })
+
+        if (RETRACTION.test(trimmed)) {
+            return this.retract(participant) ? 'retracted' : 'ignored'
+        }
+
+        const correction = trimmed.match(CORRECTION)
+        const answer = correction ? trimmed.slice(correction[0].length).trim() : trimmed
+        if (!answer) return 'ignored'
+
+        const previous = this.answers.get(participant)
+        if (previous === undefined) {
+            this.set(participant, answer)
+            return 'added'
+        }
+
+        const replaces = replace || this.mode === 'vote' || correction !== null
+        this.set(participant, replaces ? answer : `${previous}\n${answer}`)
+        return 'changed'
+    }
+
+    /**
+     * Take a participant's answer back
+     *
+     * @returns true if they had an answer
+     */
+    retract(participant: string): boolean {
+        if (!this.answers.delete(participant)) return false
+        this.order = this.order.filter(p => p !== participant)
+        return true
+    }
+
+    get(participant: string): string | undefined {
+        return this.answers.get(participant)
+    }
+
+    has(participant: string): boolean {
+        return this.answers.has(participant)
+    }
+
+    /**
+     * Participants with a current answer, in the order they first answered
+     */
+    respondents(): string[] {
+        return [...this.order]
+    }
+
+    /**
+     * Current answers, in the order participants first answered
+     */
+    toMap(): Map<string, string> {
+        return new Map(this.order.map(p => [p, this.answers.get(p)!]))
+    }
+
+    get size(): number {
+        return this.answers.size
+    }
+
+    private set(participant: string, answer: string): void {
+        if (!this.answers.has(participant)) {
+            this.order.push(participant)
+        }
+        this.answers.set(participant, answer)
+    }
+}
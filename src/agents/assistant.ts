@@ -0,0 +1,52 @@
+/**
+ * What the group has decided so far, used to answer questions mid-flow
+ * Any value works; objects are shown to the LLM as JSON.
+ */
+export interface PlanContext {
+    city?: string
+    date?: string
+    location?: unknown
+    restaurant?: unknown
+    weather?: unknown
+    transportation?: unknown
+    /** e.g. "$45 per person" */
+    cost?: string
+    /** Anything else worth knowing ("meeting at the north entrance") */
+    notes?: string[]
+}
+
+export interface AssistantConfig {
+    /** Plan details known up front; add more later with updatePlanContext() */
+    context?: PlanContext
+    /** Name the group uses for the bot, so "@planner is it far?" is picked up (default: 'bot') */
+    botName?: string
+}
+
+const QUESTION_START = /^(¿|(how|what|where|when|which|who|why|is|are|can|could|does|do|did|will|would|should|has|have|cómo|como|qué|dónde|donde|cuándo|cuando|cuál|cuánto|cuanto|quién|por qué|hay|se puede)(?![\p{L}]))/iu
+
+// "2?", "yes?", "1 or 3?" are unsure answers, not questions
+const ANSWER_LIKE = /^\s*(\d+|yes|no|y|n)(\s*(,|or|and)\s*\d+)*\s*\??\s*$/i
+
+/**
+ * Whether a message looks like a question someone is asking, rather than
+ * an answer
+ * Cheap first check; the LLM makes the final call.
+ */
+export function looksLikeQuestion(text: string, botName: string = 'bot'): boolean {
+    const trimmed = text.trim()
+    if (!trimmed || ANSWER_LIKE.test(trimmed)) return false
+
+    const mentionsBot = new RegExp(`@?\\b${botName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(trimmed)
+    return trimmed.endsWith('?') || QUESTION_START.test(trimmed) || mentionsBot
+}
+
+/**
+ * Plan context as text for an LLM prompt
+ */
+export function formatPlanContext(context: PlanContext): string {
+    const lines = Object.entries(context)
+        .filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+        .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+
+    return lines.length > 0 ? lines.join('\n') : 'Nothing decided yet.'
+}
@@ -1,6 +1,7 @@
 import express from 'express'
 import { google } from 'googleapis'
-import { IMessageClient } from '../client.js'
+import { randomUUID } from 'crypto'
+import type { MessagingTransport } from '../transport.js'
 import open from 'open'
 
 export interface CalendarConnection {
@@ -10,18 +11,31 @@ export interface CalendarConnection {
     connectedAt: Date
 }
 
+/**
+ * One group's calendar connections
+ * Links carry the ID rather than the chat ID, so chat IDs stay out of URLs.
+ */
+interface ConnectionSession {
+    id: string
+    groupChatId: string
+    transport: MessagingTransport
+    expectedParticipants: string[]
+    connections: Map<string, CalendarConnection>
+}
+
 /**
  * Google Calendar OAuth Manager
  * Handles OAuth flow for connecting participant calendars
+ *
+ * One server handles any number of groups; each group's link says which
+ * session a connection belongs to.
  */
 export class CalendarOAuthManager {
     private oauth2Client: any
-    private connections: Map<string, CalendarConnection>
+    private sessions: Map<string, ConnectionSession> = new Map()
     private app: express.Application
     private server: any
-    private imessageClient?: IMessageClient
-    private groupChatId?: string
-    private expectedParticipants?: string[]
+    private listening?: Promise<string>
 
     constructor(
         clientId: string,
@@ -34,7 +48,6 @@ export class CalendarOAuthManager {
             redirectUri
         )
 
-        this.connections = new Map()
         this.app = express()
         this.setupRoutes()
     }
@@ -45,7 +58,13 @@ export class CalendarOAuthManager {
     private setupRoutes() {
         // Landing page with participant dropdown
         this.app.get('/', (req, res) => {
-            const participants = Array.from(this.expectedParticipants || [])
+            const session = this.findSession(req.query.session as string | undefined)
+            if (!session) {
+                res.send(this.errorPage('This link has expired. Use the latest link sent to your group chat.'))
+                return
+            }
+
+            const participants = session.expectedParticipants
             const dropdownOptions = participants.map(email => 
                 `<option value="${email}">${email}</option>`
             ).join('')
@@ -110,7 +129,7 @@ export class CalendarOAuthManager {
                                 alert('Please select who you are');
                                 return;
                             }
-                            window.location.href = '/auth/google?email=' + encodeURIComponent(email);
+                            window.location.href = '/auth/google?session=${session.id}&email=' + encodeURIComponent(email);
                         }
                     </script>
                 </head>
@@ -135,7 +154,12 @@ export class CalendarOAuthManager {
 
         // Start OAuth flow with email parameter
         this.app.get('/auth/google', (req, res) => {
+            const session = this.findSession(req.query.session as string | undefined)
             const email = req.query.email as string
+            if (!session) {
+                res.send(this.errorPage('This link has expired. Use the latest link sent to your group chat.'))
+                return
+            }
             if (!email) {
                 res.send(this.errorPage('Please select who you are from the dropdown'))
                 return
@@ -148,7 +172,8 @@ export class CalendarOAuthManager {
                     'https://www.googleapis.com/auth/userinfo.email'
                 ],
                 prompt: 'consent',
-                state: email // Pass email through OAuth flow
+                // Pass session and email through OAuth flow
+                state: Buffer.from(JSON.stringify({ session: session.id, email })).toString('base64url')
             })
             res.redirect(authUrl)
         })
@@ -156,27 +181,33 @@ export class CalendarOAuthManager {
         // OAuth callback
         this.app.get('/oauth/callback', async (req, res) => {
             const code = req.query.code as string
-            const selectedEmail = req.query.state as string // Get email from state parameter
+            const state = this.parseState(req.query.state as string | undefined)
+            const session = state && this.sessions.get(state.session)
 
             if (!code) {
                 res.send(this.errorPage('No authorization code received'))
                 return
             }
 
-            if (!selectedEmail) {
+            if (!state?.email) {
                 res.send(this.errorPage('No participant selected'))
                 return
             }
 
+            if (!session) {
+                res.send(this.errorPage('This link has expired. Use the latest link sent to your group chat.'))
+                return
+            }
+
             try {
+                // The client is shared by every session, so tokens are not set on it
                 const { tokens } = await this.oauth2Client.getToken(code)
-                this.oauth2Client.setCredentials(tokens)
 
                 // Use the selected email from dropdown (not from Google)
-                const email = selectedEmail
+                const email = state.email
 
                 // Store connection
-                this.connections.set(email, {
+                session.connections.set(email, {
                     email,
                     accessToken: tokens.access_token!,
                     refreshToken: tokens.refresh_token!,
@@ -185,13 +216,11 @@ export class CalendarOAuthManager {
 
                 console.log(`✅ Calendar connected: ${email}`)
 
-                // Notify group if configured
-                if (this.imessageClient && this.groupChatId) {
-                    await this.imessageClient.send(
-                        this.groupChatId,
-                        `✅ ${email} connected their calendar! (${this.connections.size} connected)`
-                    )
-                }
+                // Notify the group the link was sent to
+                await session.transport.send(
+                    session.groupChatId,
+                    `✅ ${email} connected their calendar! (${session.connections.size} connected)`
+                )
 
                 res.send(this.successPage(email))
 
@@ -203,17 +232,49 @@ export class CalendarOAuthManager {
 
         // Status page
         this.app.get('/status', (req, res) => {
-            const connections = Array.from(this.connections.values())
+            const sessions = Array.from(this.sessions.values())
             res.json({
-                totalConnections: connections.length,
-                connections: connections.map(c => ({
-                    email: c.email,
-                    connectedAt: c.connectedAt
+                totalConnections: sessions.reduce((total, session) => total + session.connections.size, 0),
+                sessions: sessions.map(session => ({
+                    id: session.id,
+                    expected: session.expectedParticipants.length,
+                    connections: Array.from(session.connections.values()).map(c => ({
+                        email: c.email,
+                        connectedAt: c.connectedAt
+                    }))
                 }))
             })
         })
     }
 
+    /**
+     * The session a link belongs to
+     * Links without a session ID still work while only one group is connecting.
+     */
+    private findSession(id?: string): ConnectionSession | undefined {
+        if (id) return this.sessions.get(id)
+        return this.sessions.size === 1 ? this.sessions.values().next().value : undefined
+    }
+
+    private parseState(state?: string): { session: string; email: string } | null {
+        if (!state) return null
+        try {
+            return JSON.parse(Buffer.from(state, 'base64url').toString('utf8'))
+        } catch {
+            return null
+        }
+    }
+
+    /**
+     * A group's session, or the most recently opened one
+     */
+    private session(groupChatId?: string): ConnectionSession | undefined {
+        const sessions = Array.from(this.sessions.values())
+        return groupChatId
+            ? sessions.find(session => session.groupChatId === groupChatId)
+            : sessions[sessions.length - 1]
+    }
+
     private successPage(email: string): string {
         return `
             <!DOCTYPE html>
@@ -309,15 +370,18 @@ export class CalendarOAuthManager {
 
     /**
      * Start the OAuth server
+     * Already running: returns its URL.
      */
     async startServer(port: number = 3000): Promise<string> {
-        return new Promise((resolve) => {
+        // Groups starting together share one server
+        this.listening ??= new Promise((resolve) => {
             this.server = this.app.listen(port, () => {
                 const url = `http://localhost:${port}`
                 console.log(`\n🔐 OAuth server started at ${url}`)
                 resolve(url)
             })
         })
+        return this.listening
     }
 
     /**
@@ -326,29 +390,63 @@ export class CalendarOAuthManager {
     async stopServer(): Promise<void> {
         if (this.server) {
             this.server.close()
+            this.server = undefined
+            this.listening = undefined
             console.log('🛑 OAuth server stopped')
         }
     }
 
+    /**
+     * Start collecting connections for a group
+     * A group that already has a session keeps it.
+     *
+     * @returns the session ID used in the group's link
+     */
+    openSession(groupChatId: string, transport: MessagingTransport, participants: string[] = []): string {
+        const existing = this.session(groupChatId)
+        if (existing) {
+            existing.transport = transport
+            if (participants.length > 0) existing.expectedParticipants = participants
+            return existing.id
+        }
+
+        const id = randomUUID().slice(0, 8)
+        this.sessions.set(id, {
+            id,
+            groupChatId,
+            transport,
+            expectedParticipants: participants,
+            connections: new Map()
+        })
+        return id
+    }
+
+    /**
+     * Forget a group's session and its connections; its link stops working
+     */
+    closeSession(groupChatId: string): boolean {
+        const session = this.session(groupChatId)
+        return session ? this.sessions.delete(session.id) : false
+    }
+
     /**
      * Send connection link to iMessage group
      */
     async sendConnectionLinkToGroup(
         groupChatId: string,
-        imessageClient: IMessageClient
+        transport: MessagingTransport,
+        participants?: string[]
     ): Promise<void> {
-        this.imessageClient = imessageClient
-        this.groupChatId = groupChatId
-
+        const sessionId = this.openSession(groupChatId, transport, participants)
         const serverUrl = await this.startServer()
-        
+
         const message = `📅 CALENDAR CONNECTION NEEDED\n\n` +
             `To find the best time for everyone, please connect your calendar:\n\n` +
-            `👉 ${serverUrl}\n\n` +
+            `👉 ${serverUrl}/?session=${sessionId}\n\n` +
             `Click the link above to connect your Google Calendar.\n` +
             `We only check availability, not event details. 🔒`
 
-        await imessageClient.send(groupChatId, message)
+        await transport.send(groupChatId, message)
         console.log(`\n📤 Connection link sent to group!`)
         console.log(`   Waiting for participants to connect...\n`)
     }
@@ -359,11 +457,17 @@ export class CalendarOAuthManager {
     async waitForConnections(
         expectedEmails: string[],
         timeout: number = 600000, // 10 minutes
-        minThreshold: number = 0.5 // 50% minimum
+        minThreshold: number = 0.5, // 50% minimum
+        groupChatId?: string
     ): Promise<Map<string, CalendarConnection>> {
+        const session = this.session(groupChatId)
+        if (!session) {
+            throw new Error(`No calendar connection session${groupChatId ? ` for ${groupChatId}` : ''}; send the link first`)
+        }
+
         // Store expected participants for dropdown
-        this.expectedParticipants = expectedEmails
-        
+        session.expectedParticipants = expectedEmails
+
         const startTime = Date.now()
         const minRequired = Math.ceil(expectedEmails.length * minThreshold)
         
@@ -371,8 +475,8 @@ export class CalendarOAuthManager {
         expectedEmails.forEach(email => console.log(`   - ${email}`))
 
         while (true) {
-            const connected = expectedEmails.filter(email => 
-                this.connections.has(email)
+            const connected = expectedEmails.filter(email =>
+                session.connections.has(email)
             )
 
             process.stdout.write(`\r   ${connected.length}/${expectedEmails.length} connected (need ${minRequired})   `)
@@ -399,21 +503,24 @@ export class CalendarOAuthManager {
             await new Promise(resolve => setTimeout(resolve, 2000))
         }
 
-        return this.connections
+        return session.connections
     }
 
     /**
-     * Get all connected calendars
+     * Get a group's connected calendars, or every group's
      */
-    getConnections(): Map<string, CalendarConnection> {
-        return this.connections
+    getConnections(groupChatId?: string): Map<string, CalendarConnection> {
+        if (groupChatId) {
+            return this.session(groupChatId)?.connections ?? new Map()
+        }
+        return new Map(Array.from(this.sessions.values()).flatMap(session => Array.from(session.connections)))
     }
 
     /**
      * Get auth client for a specific user
      */
-    getAuthClientForUser(email: string): any {
-        const connection = this.connections.get(email)
+    getAuthClientForUser(email: string, groupChatId?: string): any {
+        const connection = this.getConnections(groupChatId).get(email)
         if (!connection) return null
 
         const client = new google.auth.OAuth2()
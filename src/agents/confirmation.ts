@@ -0,0 +1,124 @@
+import type { AskOptions } from './interactive-agent.js'
+
+/**
+ * - yes: agrees as-is
+ * - no: doesn't agree
+ * - maybe: undecided ("not sure yet", "let me check")
+ * - conditional: agrees if something changes ("yes but not Sunday")
+ */
+export type ConfirmationIntent = 'yes' | 'no' | 'maybe' | 'conditional'
+
+export interface ConfirmationAnswer {
+    participant: string
+    intent: ConfirmationIntent
+    /** What has to change, for conditional answers ("not Sunday") */
+    condition?: string
+    /** The reply as written */
+    text: string
+}
+
+/**
+ * Answers counted by intent, passed to a ConfirmationRule
+ */
+export interface ConfirmationTally {
+    yes: number
+    no: number
+    maybe: number
+    conditional: number
+    /** Everyone who answered */
+    responded: number
+    /** Named participants in the group (may be 0) */
+    participants: number
+}
+
+/**
+ * Decides whether a confirmation passed
+ */
+export type ConfirmationRule = (tally: ConfirmationTally) => boolean
+
+export interface ConfirmationOptions extends AskOptions {
+    /** When the group counts as agreeing (default: ConfirmationRules.majority()) */
+    rule?: ConfirmationRule
+}
+
+export interface ConfirmationResult {
+    confirmed: boolean
+    /** true for yes and conditional answers */
+    responses: Map<string, boolean>
+    /** Each participant's classified answer */
+    answers: Map<string, ConfirmationAnswer>
+    tally: ConfirmationTally
+    /** Conditional answers: things to change before (or after) going ahead */
+    changeRequests: ConfirmationAnswer[]
+    missing: string[]
+}
+
+// Conditional answers agree in principle, so the built-in rules count them as yes
+const inFavour = (tally: ConfirmationTally): number => tally.yes + tally.conditional
+
+/**
+ * Built-in confirmation rules
+ *
+ * Usage:
+ *   await agent.askConfirmation('Book it?', { rule: ConfirmationRules.unanimous() })
+ */
+export const ConfirmationRules = {
+    /**
+     * More than half of the people who answered are in favour
+     */
+    majority(): ConfirmationRule {
+        return tally => tally.responded > 0 && inFavour(tally) * 2 > tally.responded
+    },
+
+    /**
+     * More than half of the whole group is in favour, answered or not
+     * With no named participants, falls back to majority of answers.
+     */
+    majorityOfParticipants(): ConfirmationRule {
+        return tally => tally.participants === 0
+            ? ConfirmationRules.majority()(tally)
+            : inFavour(tally) * 2 > tally.participants
+    },
+
+    /**
+     * At least a fraction (0-1) of the people who answered are in favour
+     */
+    atLeast(fraction: number): ConfirmationRule {
+        return tally => tally.responded > 0 && inFavour(tally) >= Math.ceil(tally.responded * fraction)
+    },
+
+    /**
+     * Everyone who answered is in favour, and at least one person answered
+     */
+    unanimous(): ConfirmationRule {
+        return tally => tally.responded > 0 && inFavour(tally) === tally.responded
+    }
+}
+
+const YES = /^[¡]?(yes|yep|yeah|yup|ya|y|sure|ok|okay|sounds good|works for me|perfect|great|let'?s do it|i'?m in|count me in|sí|si|claro|vale|dale|de acuerdo|perfecto|me parece bien|👍|✅)[\s.!]*$/i
+const NO = /^(no|nope|nah|n|no thanks|can'?t make it|i'?m out|no gracias|no puedo|👎|❌)[\s.!]*$/i
+const MAYBE = /^[¿]?(maybe|not sure|unsure|idk|dunno|possibly|perhaps|quizás|quizas|tal vez|a lo mejor|no sé|no se|🤷)[\s.!?]*$/i
+
+/**
+ * Classify replies that need no interpretation ("yes", "nope", "👍")
+ *
+ * @returns null when the reply needs a closer look
+ */
+export function parseSimpleConfirmation(text: string): ConfirmationIntent | null {
+    const trimmed = text.trim()
+    if (YES.test(trimmed)) return 'yes'
+    if (NO.test(trimmed)) return 'no'
+    if (MAYBE.test(trimmed)) return 'maybe'
+    return null
+}
+
+/**
+ * Count classified answers
+ */
+export function tallyConfirmations(answers: ConfirmationAnswer[], participants: number): ConfirmationTally {
+    const tally: ConfirmationTally = { yes: 0, no: 0, maybe: 0, conditional: 0, responded: answers.length, participants }
+    for (const answer of answers) {
+        tally[answer.intent]++
+    }
+    return tally
+}
@@ -1,8 +1,13 @@
 import { ChatGoogleGenerativeAI } from '@langchain/google-genai'
-import { CalendarAgent, FreeTimeResult } from './calendar-agent.js'
+import { CalendarAgent, CalendarSlot, FreeTimeResult } from './calendar-agent.js'
 import { LocationAgent, LocationRecommendation } from './location-agent.js'
 import { RestaurantAgent, RestaurantRecommendation } from './restaurant-agent.js'
 import { TransportationAgent, TransportRecommendation } from './transportation-agent.js'
+import { WeatherAgent, WeatherData } from './weather-agent.js'
+import { LodgingAgent, LodgingProvider, LodgingRecommendation } from './lodging-agent.js'
+import { formatMoney } from '../i18n.js'
+
+const DAY = 24 * 60 * 60 * 1000
 
 export interface HolidayPlan {
     timeSlot: FreeTimeResult
@@ -11,6 +16,8 @@ export interface HolidayPlan {
     transportation: TransportRecommendation
     costBreakdown: CostBreakdown
     summary: string
+    /** ISO 4217 code of every price in the plan (default: USD) */
+    currency?: string
 }
 
 export interface CostBreakdown {
@@ -38,6 +45,71 @@ export interface PlanningParams {
     }
     duration?: number
     startLocation?: string
+    /** ISO 4217 code the agents should price things in (default: USD) */
+    currency?: string
+}
+
+/**
+ * A weekend away: several days in a row in the destination city
+ */
+export interface TripParams extends Omit<PlanningParams, 'endDate'> {
+    /** Number of days, starting on startDate (default: 3) */
+    days?: number
+}
+
+export interface DayCostBreakdown extends CostBreakdown {
+    day: number
+    date: string
+    /** The night's share of the lodging, per person (0 on the last day) */
+    lodging: number
+}
+
+export interface TripCostBreakdown extends CostBreakdown {
+    days: DayCostBreakdown[]
+    lodging: number
+    /** Getting back home after the last day, per person */
+    returnTransportation: number
+}
+
+export interface TripDay {
+    day: number
+    date: string
+    weather: WeatherData
+    activities: LocationRecommendation
+    meals: {
+        lunch: RestaurantRecommendation
+        dinner: RestaurantRecommendation
+    }
+    /** Getting to the day's activities: from home on day 1, from the lodging after that */
+    travel: TransportRecommendation
+    costBreakdown: DayCostBreakdown
+}
+
+export interface TripPlan {
+    city: string
+    startDate: string
+    endDate: string
+    days: TripDay[]
+    /** Where the group stays; trips of one day don't have any */
+    lodging?: LodgingRecommendation
+    returnTravel: TransportRecommendation
+    costBreakdown: TripCostBreakdown
+    summary: string
+    /** ISO 4217 code of every price in the trip (default: USD) */
+    currency?: string
+}
+
+export type PlanComponent = 'date' | 'location' | 'restaurant' | 'transport'
+
+/**
+ * What the group wants changed in a plan
+ */
+export interface PlanRevision {
+    components: PlanComponent[]
+    /** Feedback per component, passed to its agent as constraints */
+    constraints: Partial<Record<PlanComponent, string[]>>
+    /** The new time slot, when the date changes */
+    slot?: CalendarSlot
 }
 
 /**
@@ -48,13 +120,17 @@ export class HolidayPlanner {
     private locationAgent: LocationAgent
     private restaurantAgent: RestaurantAgent
     private transportationAgent: TransportationAgent
+    private weatherAgent: WeatherAgent
+    private lodgingAgent: LodgingAgent
     private llm: ChatGoogleGenerativeAI
 
-    constructor(apiKey: string, googleCredentials?: any) {
+    constructor(apiKey: string, googleCredentials?: any, lodgingProvider?: LodgingProvider) {
         this.calendarAgent = new CalendarAgent(apiKey, googleCredentials)
         this.locationAgent = new LocationAgent(apiKey)
         this.restaurantAgent = new RestaurantAgent(apiKey)
         this.transportationAgent = new TransportationAgent(apiKey)
+        this.weatherAgent = new WeatherAgent(apiKey)
+        this.lodgingAgent = new LodgingAgent(apiKey, lodgingProvider)
         this.llm = new ChatGoogleGenerativeAI({
             model: 'gemini-2.5-flash',
             temperature: 0.7,
@@ -85,6 +161,7 @@ export class HolidayPlanner {
             groupSize: params.participants.length,
             preferences: params.preferences?.activities,
             budget: params.preferences?.budget,
+            currency: params.currency,
             date: timeSlot.recommendedSlot?.date,
             duration: params.duration || 4
         })
@@ -98,6 +175,7 @@ export class HolidayPlanner {
             groupSize: params.participants.length,
             cuisine: params.preferences?.cuisine,
             budget: params.preferences?.budget,
+            currency: params.currency,
             mealType: 'lunch'
         })
         console.log(`✅ Found ${restaurant.restaurants.length} restaurant options\n`)
@@ -110,7 +188,8 @@ export class HolidayPlanner {
             city: params.city,
             groupSize: params.participants.length,
             date: timeSlot.recommendedSlot?.date,
-            budget: params.preferences?.budget
+            budget: params.preferences?.budget,
+            currency: params.currency
         })
         console.log(`✅ Found ${transportation.options.length} transportation options\n`)
 
@@ -131,7 +210,8 @@ export class HolidayPlanner {
             restaurant,
             transportation,
             costBreakdown,
-            participants: params.participants
+            participants: params.participants,
+            currency: params.currency
         })
 
         return {
@@ -140,7 +220,283 @@ export class HolidayPlanner {
             restaurant,
             transportation,
             costBreakdown,
-            summary
+            summary,
+            currency: params.currency
+        }
+    }
+
+    /**
+     * Re-run only the agents for the parts of the plan the group wants changed
+     * A new location also gets a new restaurant nearby and a new route there.
+     */
+    async revisePlan(plan: HolidayPlan, params: PlanningParams, revision: PlanRevision): Promise<HolidayPlan> {
+        const wants = (component: PlanComponent) => revision.components.includes(component)
+        const timeSlot = revision.slot ? { ...plan.timeSlot, recommendedSlot: revision.slot } : plan.timeSlot
+        const currency = params.currency ?? plan.currency
+
+        let location = plan.location
+        if (wants('location')) {
+            console.log('📍 Finding other locations...')
+            location = await this.locationAgent.findLocations({
+                city: params.city,
+                groupSize: params.participants.length,
+                preferences: params.preferences?.activities,
+                budget: params.preferences?.budget,
+                currency,
+                date: timeSlot.recommendedSlot?.date,
+                duration: params.duration || 4,
+                constraints: revision.constraints.location
+            })
+        }
+        const moved = location !== plan.location
+
+        let restaurant = plan.restaurant
+        if (wants('restaurant') || moved) {
+            console.log('🍽️  Finding other restaurants...')
+            restaurant = await this.restaurantAgent.findRestaurants({
+                location: location.bestOption.name,
+                city: params.city,
+                groupSize: params.participants.length,
+                cuisine: params.preferences?.cuisine,
+                budget: params.preferences?.budget,
+                currency,
+                mealType: 'lunch',
+                constraints: revision.constraints.restaurant
+            })
+        }
+
+        let transportation = plan.transportation
+        if (wants('transport') || moved) {
+            console.log('🚗 Finding other transportation...')
+            transportation = await this.transportationAgent.findTransportation({
+                from: params.startLocation || `Downtown ${params.city}`,
+                to: location.bestOption.name,
+                city: params.city,
+                groupSize: params.participants.length,
+                date: timeSlot.recommendedSlot?.date,
+                budget: params.preferences?.budget,
+                currency,
+                constraints: revision.constraints.transport
+            })
+        }
+
+        const costBreakdown = this.calculateCosts(
+            params.participants.length,
+            location,
+            restaurant,
+            transportation
+        )
+
+        const summary = await this.generateSummary({
+            timeSlot,
+            location,
+            restaurant,
+            transportation,
+            costBreakdown,
+            participants: params.participants,
+            currency
+        })
+
+        return {
+            timeSlot,
+            location,
+            restaurant,
+            transportation,
+            costBreakdown,
+            summary,
+            currency
+        }
+    }
+
+    /**
+     * Plan a trip of several days: activities, lunch, dinner, travel and weather per day
+     * Each day avoids the places already visited, and rainy days favour indoor places.
+     * Trips longer than a day stay near the first day's location.
+     */
+    async planTrip(params: TripParams): Promise<TripPlan> {
+        const dayCount = params.days ?? 3
+        if (dayCount < 1) {
+            throw new Error(`A trip needs at least one day (got ${dayCount})`)
+        }
+
+        const groupSize = params.participants.length
+        const home = params.startLocation || `Downtown ${params.city}`
+        console.log(`🧳 Planning a ${dayCount}-day trip to ${params.city}...\n`)
+
+        const days: TripDay[] = []
+        let lodging: LodgingRecommendation | undefined
+        for (let i = 0; i < dayCount; i++) {
+            const date = new Date(params.startDate.getTime() + i * DAY)
+            const dateStr = date.toISOString().split('T')[0]
+            const visited = days.map(day => day.activities.bestOption.name)
+            console.log(`📆 Day ${i + 1} (${dateStr})`)
+
+            const weather = await this.weatherAgent.getWeatherForecast({ city: params.city, date })
+            const constraints = [
+                ...(visited.length > 0 ? [`Not somewhere already visited on this trip: ${visited.join(', ')}`] : []),
+                ...(weather.precipitation > 5 ? [`Rain expected (${weather.precipitation}mm): favour indoor places`] : [])
+            ]
+
+            const activities = await this.locationAgent.findLocations({
+                city: params.city,
+                groupSize,
+                preferences: params.preferences?.activities,
+                budget: params.preferences?.budget,
+                currency: params.currency,
+                date: dateStr,
+                duration: params.duration || 4,
+                constraints
+            })
+
+            if (i === 0 && dayCount > 1) {
+                console.log('🛏️  Finding a place to stay...')
+                lodging = await this.lodgingAgent.findLodging({
+                    city: params.city,
+                    near: activities.bestOption.name,
+                    checkIn: dateStr,
+                    checkOut: new Date(date.getTime() + (dayCount - 1) * DAY).toISOString().split('T')[0],
+                    groupSize,
+                    budget: params.preferences?.budget,
+                    currency: params.currency
+                })
+                console.log(`✅ Staying at ${lodging.bestOption.name}`)
+            }
+            // Nights are every day but the last
+            const nightCost = lodging && i < dayCount - 1 ? lodging.bestOption.costPerNight / groupSize : 0
+
+            const meal = (mealType: 'lunch' | 'dinner') => this.restaurantAgent.findRestaurants({
+                location: activities.bestOption.name,
+                city: params.city,
+                groupSize,
+                cuisine: params.preferences?.cuisine,
+                budget: params.preferences?.budget,
+                currency: params.currency,
+                mealType
+            })
+            const lunch = await meal('lunch')
+            const dinner = await meal('dinner')
+
+            const travel = await this.transportationAgent.findTransportation({
+                from: i === 0 || !lodging ? home : lodging.bestOption.name,
+                to: activities.bestOption.name,
+                city: params.city,
+                groupSize,
+                date: dateStr,
+                budget: params.preferences?.budget,
+                currency: params.currency
+            })
+
+            days.push({
+                day: i + 1,
+                date: dateStr,
+                weather,
+                activities,
+                meals: { lunch, dinner },
+                travel,
+                costBreakdown: this.calculateDayCosts(i + 1, dateStr, groupSize, activities, lunch, dinner, travel, nightCost)
+            })
+            console.log(`✅ Day ${i + 1}: ${activities.bestOption.name}\n`)
+        }
+
+        const last = days[days.length - 1]
+        const returnTravel = await this.transportationAgent.findTransportation({
+            from: last.activities.bestOption.name,
+            to: home,
+            city: params.city,
+            groupSize,
+            date: last.date,
+            budget: params.preferences?.budget,
+            currency: params.currency
+        })
+
+        const costBreakdown = this.calculateTripCosts(groupSize, days, returnTravel)
+        const trip = {
+            city: params.city,
+            startDate: days[0].date,
+            endDate: last.date,
+            days,
+            lodging,
+            returnTravel,
+            costBreakdown,
+            currency: params.currency
+        }
+
+        console.log('📝 Generating trip summary...\n')
+        const summary = await this.generateTripSummary(trip, params.participants)
+        return { ...trip, summary }
+    }
+
+    /**
+     * One day's costs; meals count as the restaurant cost, and the night's lodging is its own line
+     */
+    private calculateDayCosts(
+        day: number,
+        date: string,
+        groupSize: number,
+        activities: LocationRecommendation,
+        lunch: RestaurantRecommendation,
+        dinner: RestaurantRecommendation,
+        travel: TransportRecommendation,
+        lodgingCost: number
+    ): DayCostBreakdown {
+        const locationCost = activities.bestOption.estimatedCostPerPerson
+        const lunchCost = lunch.bestOption.estimatedCostPerPerson
+        const dinnerCost = dinner.bestOption.estimatedCostPerPerson
+        const transportCost = travel.bestOption.estimatedCostPerPerson
+        const totalPerPerson = locationCost + lunchCost + dinnerCost + transportCost + lodgingCost
+
+        return {
+            day,
+            date,
+            location: locationCost,
+            restaurant: lunchCost + dinnerCost,
+            transportation: transportCost,
+            lodging: lodgingCost,
+            totalPerPerson,
+            totalForGroup: totalPerPerson * groupSize,
+            breakdown: [
+                { category: 'Location & Activities', perPerson: locationCost, total: locationCost * groupSize },
+                { category: 'Lunch', perPerson: lunchCost, total: lunchCost * groupSize },
+                { category: 'Dinner', perPerson: dinnerCost, total: dinnerCost * groupSize },
+                { category: 'Transportation', perPerson: transportCost, total: transportCost * groupSize },
+                ...(lodgingCost > 0 ? [{ category: 'Lodging', perPerson: lodgingCost, total: lodgingCost * groupSize }] : [])
+            ]
+        }
+    }
+
+    /**
+     * Whole-trip costs: every day and night plus the trip home
+     */
+    private calculateTripCosts(
+        groupSize: number,
+        days: TripDay[],
+        returnTravel: TransportRecommendation
+    ): TripCostBreakdown {
+        const sum = (cost: (day: DayCostBreakdown) => number) =>
+            days.reduce((total, day) => total + cost(day.costBreakdown), 0)
+
+        const returnCost = returnTravel.bestOption.estimatedCostPerPerson
+        const locationCost = sum(day => day.location)
+        const restaurantCost = sum(day => day.restaurant)
+        const transportCost = sum(day => day.transportation) + returnCost
+        const lodgingCost = sum(day => day.lodging)
+        const totalPerPerson = locationCost + restaurantCost + transportCost + lodgingCost
+
+        return {
+            location: locationCost,
+            restaurant: restaurantCost,
+            transportation: transportCost,
+            lodging: lodgingCost,
+            totalPerPerson,
+            totalForGroup: totalPerPerson * groupSize,
+            breakdown: [
+                { category: 'Locations & Activities', perPerson: locationCost, total: locationCost * groupSize },
+                { category: 'Meals', perPerson: restaurantCost, total: restaurantCost * groupSize },
+                { category: 'Transportation', perPerson: transportCost, total: transportCost * groupSize },
+                ...(lodgingCost > 0 ? [{ category: 'Lodging', perPerson: lodgingCost, total: lodgingCost * groupSize }] : [])
+            ],
+            days: days.map(day => day.costBreakdown),
+            returnTransportation: returnCost
         }
     }
 
@@ -195,7 +551,9 @@ export class HolidayPlanner {
         transportation: TransportRecommendation
         costBreakdown: CostBreakdown
         participants: string[]
+        currency?: string
     }): Promise<string> {
+        const money = (amount: number) => formatMoney(amount, data.currency)
         const prompt = `
 You are a travel coordinator creating a final summary for a group outing.
 
@@ -208,20 +566,20 @@ LOCATION:
 ${data.location.bestOption.name} - ${data.location.bestOption.type}
 ${data.location.bestOption.description}
 Activities: ${data.location.bestOption.activities.join(', ')}
-Cost: $${data.location.bestOption.estimatedCostPerPerson}/person
+Cost: ${money(data.location.bestOption.estimatedCostPerPerson)}/person
 
 RESTAURANT:
 ${data.restaurant.bestOption.name} - ${data.restaurant.bestOption.cuisine}
 ${data.restaurant.bestOption.description}
-Cost: $${data.restaurant.bestOption.estimatedCostPerPerson}/person
+Cost: ${money(data.restaurant.bestOption.estimatedCostPerPerson)}/person
 
 TRANSPORTATION:
 ${data.transportation.bestOption.method}
 Duration: ${data.transportation.bestOption.duration}
-Cost: $${data.transportation.bestOption.estimatedCostPerPerson}/person
+Cost: ${money(data.transportation.bestOption.estimatedCostPerPerson)}/person
 
-TOTAL COST PER PERSON: $${data.costBreakdown.totalPerPerson.toFixed(2)}
-TOTAL FOR GROUP: $${data.costBreakdown.totalForGroup.toFixed(2)}
+TOTAL COST PER PERSON: ${money(data.costBreakdown.totalPerPerson)}
+TOTAL FOR GROUP: ${money(data.costBreakdown.totalForGroup)}
 
 Create a friendly, enthusiastic summary that includes:
 1. An exciting introduction to the plan
@@ -232,6 +590,47 @@ Create a friendly, enthusiastic summary that includes:
 6. Any important tips or reminders
 7. A motivating closing
 
+Make it engaging and easy to share with the group!
+`
+        const response = await this.llm.invoke(prompt)
+        return response.content as string
+    }
+
+    /**
+     * Generate a day-by-day summary of a trip
+     */
+    private async generateTripSummary(trip: Omit<TripPlan, 'summary'>, participants: string[]): Promise<string> {
+        const money = (amount: number) => formatMoney(amount, trip.currency)
+        const days = trip.days.map(day => `
+DAY ${day.day} (${day.date}) - ${day.weather.condition}, ${day.weather.temperature.min}-${day.weather.temperature.max}°C
+Getting there: ${day.travel.bestOption.method} (${day.travel.bestOption.duration})
+Activities: ${day.activities.bestOption.name} - ${day.activities.bestOption.activities.join(', ')}
+Lunch: ${day.meals.lunch.bestOption.name} (${day.meals.lunch.bestOption.cuisine})
+Dinner: ${day.meals.dinner.bestOption.name} (${day.meals.dinner.bestOption.cuisine})
+Cost: ${money(day.costBreakdown.totalPerPerson)}/person`).join('\n')
+
+        const prompt = `
+You are a travel coordinator creating a final summary for a group trip.
+
+PARTICIPANTS: ${participants.join(', ')}
+DESTINATION: ${trip.city}
+DATES: ${trip.startDate} to ${trip.endDate}
+${trip.lodging ? `STAYING AT: ${trip.lodging.bestOption.name} (${trip.lodging.bestOption.type}), ${trip.lodging.bestOption.distance} from the first day's activities
+Cancellation: ${trip.lodging.bestOption.cancellationPolicy}` : ''}
+${days}
+
+RETURN: ${trip.returnTravel.bestOption.method} (${trip.returnTravel.bestOption.duration})
+
+TOTAL COST PER PERSON: ${money(trip.costBreakdown.totalPerPerson)}
+TOTAL FOR GROUP: ${money(trip.costBreakdown.totalForGroup)}
+
+Create a friendly, enthusiastic summary that includes:
+1. An exciting introduction to the trip
+2. A day-by-day itinerary
+3. What to pack, given each day's weather
+4. Cost breakdown clearly explained
+5. A motivating closing
+
 Make it engaging and easy to share with the group!
 `
         const response = await this.llm.invoke(prompt)
@@ -243,6 +642,7 @@ Make it engaging and easy to share with the group!
      */
     formatForIMessage(plan: HolidayPlan): string {
         const slot = plan.timeSlot.recommendedSlot
+        const money = (amount: number) => formatMoney(amount, plan.currency)
 
         return `🎉 GROUP OUTING PLAN 🎉
 
@@ -256,12 +656,47 @@ ${plan.restaurant.bestOption.cuisine} cuisine
 
 🚗 Transportation: ${plan.transportation.bestOption.method}
 
-💰 COST PER PERSON: $${plan.costBreakdown.totalPerPerson.toFixed(2)}
-   • Location: $${plan.costBreakdown.location.toFixed(2)}
-   • Food: $${plan.costBreakdown.restaurant.toFixed(2)}
-   • Transport: $${plan.costBreakdown.transportation.toFixed(2)}
+💰 COST PER PERSON: ${money(plan.costBreakdown.totalPerPerson)}
+   • Location: ${money(plan.costBreakdown.location)}
+   • Food: ${money(plan.costBreakdown.restaurant)}
+   • Transport: ${money(plan.costBreakdown.transportation)}
+
+Total for group: ${money(plan.costBreakdown.totalForGroup)}
 
-Total for group: $${plan.costBreakdown.totalForGroup.toFixed(2)}
+Reply if you're in! 🙌`
+    }
+
+    /**
+     * Generate a shareable day-by-day trip message for iMessage
+     */
+    formatTripForIMessage(trip: TripPlan): string {
+        const money = (amount: number) => formatMoney(amount, trip.currency)
+        const days = trip.days.map(day => `📆 Day ${day.day} - ${day.date}
+🌤️ ${day.weather.condition}, ${day.weather.temperature.min}-${day.weather.temperature.max}°C
+🚗 ${day.travel.bestOption.method} to ${day.activities.bestOption.name}
+📍 ${day.activities.bestOption.activities.slice(0, 3).join(' • ')}
+🥪 Lunch: ${day.meals.lunch.bestOption.name}
+🍽️ Dinner: ${day.meals.dinner.bestOption.name}
+💰 ${money(day.costBreakdown.totalPerPerson)}/person`).join('\n\n')
+
+        return `🧳 GROUP TRIP TO ${trip.city.toUpperCase()} 🧳
+
+📅 ${trip.startDate} → ${trip.endDate} (${trip.days.length} days)
+${trip.lodging ? `🛏️ Staying at: ${trip.lodging.bestOption.name}
+${this.lodgingAgent.formatRooms(trip.lodging.bestOption)} • ${money(trip.lodging.bestOption.costPerNight)}/night
+${trip.lodging.bestOption.cancellationPolicy}
+` : ''}
+${days}
+
+🏠 Home: ${trip.returnTravel.bestOption.method}
+
+💰 COST PER PERSON: ${money(trip.costBreakdown.totalPerPerson)}
+   • Activities: ${money(trip.costBreakdown.location)}
+   • Food: ${money(trip.costBreakdown.restaurant)}
+   • Transport: ${money(trip.costBreakdown.transportation)}
+   • Lodging: ${money(trip.costBreakdown.lodging)}
+
+Total for group: ${money(trip.costBreakdown.totalForGroup)}
 
 Reply if you're in! 🙌`
     }
@@ -274,16 +709,17 @@ Reply if you're in! 🙌`
         restaurants: string[]
         transportation: string[]
     }> {
+        const money = (amount: number) => formatMoney(amount, plan.currency)
         return {
             locations: plan.location.locations
                 .filter(l => l.name !== plan.location.bestOption.name)
-                .map(l => `${l.name} - $${l.estimatedCostPerPerson}/person`),
+                .map(l => `${l.name} - ${money(l.estimatedCostPerPerson)}/person`),
             restaurants: plan.restaurant.restaurants
                 .filter(r => r.name !== plan.restaurant.bestOption.name)
-                .map(r => `${r.name} (${r.cuisine}) - $${r.estimatedCostPerPerson}/person`),
+                .map(r => `${r.name} (${r.cuisine}) - ${money(r.estimatedCostPerPerson)}/person`),
             transportation: plan.transportation.options
                 .filter(t => t.method !== plan.transportation.bestOption.method)
-                .map(t => `${t.method} - $${t.estimatedCostPerPerson}/person`)
+                .map(t => `${t.method} - ${money(t.estimatedCostPerPerson)}/person`)
         }
     }
 }
@@ -16,5 +16,67 @@ export type { RestaurantOption, RestaurantRecommendation } from './restaurant-ag
 export { TransportationAgent } from './transportation-agent.js'
 export type { TransportOption, TransportRecommendation } from './transportation-agent.js'
 
+export { LodgingAgent, countNights } from './lodging-agent.js'
+export type { LodgingOption, LodgingRecommendation, LodgingSearch, LodgingProvider, RoomConfiguration } from './lodging-agent.js'
+
+export { FixtureLodgingProvider, FIXTURE_LISTINGS } from '../fixtures/lodging.js'
+export type { FixtureListing, FixtureRoomType } from '../fixtures/lodging.js'
+
 export { HolidayPlanner } from './holiday-planner.js'
-export type { HolidayPlan, CostBreakdown, PlanningParams } from './holiday-planner.js'
+export type {
+    HolidayPlan,
+    CostBreakdown,
+    PlanningParams,
+    PlanComponent,
+    PlanRevision,
+    TripParams,
+    TripPlan,
+    TripDay,
+    DayCostBreakdown,
+    TripCostBreakdown
+} from './holiday-planner.js'
+
+export { diffPlans, formatPlanDiff, guessComponents } from './plan-revision.js'
+export type { PlanChange } from './plan-revision.js'
+
+export { InteractiveAgent, PLANNING_STEPS } from './interactive-agent.js'
+export type { GroupResponse, ConversationState, PlanningStep, AskOptions, QuestionResult } from './interactive-agent.js'
+
+export { ResponsePolicies } from './response-policies.js'
+export type { ResponsePolicy, ResponseProgress } from './response-policies.js'
+
+export { AnswerSheet } from './answer-sheet.js'
+export type { AnswerMode, AnswerChange } from './answer-sheet.js'
+
+export { ConfirmationRules, parseSimpleConfirmation, tallyConfirmations } from './confirmation.js'
+export type {
+    ConfirmationIntent,
+    ConfirmationAnswer,
+    ConfirmationTally,
+    ConfirmationRule,
+    ConfirmationOptions,
+    ConfirmationResult
+} from './confirmation.js'
+
+export { looksLikeQuestion, formatPlanContext } from './assistant.js'
+export type { AssistantConfig, PlanContext } from './assistant.js'
+
+export { parseBallot, tallyPoll, formatPollTally } from './poll.js'
+export type { PollMethod, PollOptions, PollResult, PollTally, PollRound, Ballot } from './poll.js'
+
+export { Reminders } from './reminders.js'
+export type { ReminderConfig, QuietHours } from './reminders.js'
+
+export { SessionStore } from './session-store.js'
+export type { SessionStoreConfig, SessionStatus, PlanningSession, SessionCheckpoint } from './session-store.js'
+
+export { InteractiveHolidayPlanner } from './interactive-holiday-planner.js'
+export type { InteractivePlanningResult, InteractivePlannerConfig, PlanningInput } from './interactive-holiday-planner.js'
+
+export { PlanningSessionManager } from './planning-session-manager.js'
+export type { PlanningSessionManagerConfig, SharedPlannerConfig, ActiveSession } from './planning-session-manager.js'
+
+export { WorkflowEngine, loadWorkflow, parseWorkflow, resolveTemplate } from './workflow.js'
+export type { WorkflowAction, WorkflowActions, WorkflowDefinition, WorkflowStep, WorkflowResult } from './workflow.js'
+
+export { createWorkflowActions } from './workflow-actions.js'
@@ -1,6 +1,32 @@
-import { IMessageSDK } from '@photon-ai/imessage-kit'
 import { ChatGoogleGenerativeAI } from '@langchain/google-genai'
-import { IMessageClient } from '../client.js'
+import { randomUUID } from 'crypto'
+import { isReactionTo, isReferenceTo } from '../reactions.js'
+import type { CommandDefinition, CommandRouter } from '../command-router.js'
+import { ResponsePolicies, type ResponsePolicy } from './response-policies.js'
+import { Reminders, type ReminderConfig } from './reminders.js'
+import { AnswerSheet, type AnswerChange, type AnswerMode } from './answer-sheet.js'
+import {
+    ConfirmationRules,
+    parseSimpleConfirmation,
+    tallyConfirmations,
+    type ConfirmationAnswer,
+    type ConfirmationIntent,
+    type ConfirmationOptions,
+    type ConfirmationResult
+} from './confirmation.js'
+import { formatPollTally, parseBallot, tallyPoll, type Ballot, type PollOptions, type PollResult } from './poll.js'
+import { formatPlanContext, looksLikeQuestion, type AssistantConfig, type PlanContext } from './assistant.js'
+import { MessageBus } from '../message-bus.js'
+import {
+    Translator,
+    detectLanguage,
+    languageName,
+    type Language,
+    type LanguageSettings,
+    type MessageKey,
+    type MessageVars
+} from '../i18n.js'
+import type { IncomingMessage, MessagingTransport, ReactionType } from '../transport.js'
 
 export interface GroupResponse {
     participant: string
@@ -8,40 +34,130 @@ export interface GroupResponse {
     timestamp: Date
 }
 
+/**
+ * Turns an incoming message into a response, or null to ignore it
+ */
+type ResponseReader = (message: IncomingMessage) => string | null
+
+/**
+ * The question currently waiting for answers
+ */
+interface PendingQuestion {
+    /** Number of options, when /pick should be range-checked */
+    optionCount?: number
+    answers: AnswerSheet
+    record: (sender: string, text: string, replace?: boolean) => AnswerChange
+    skip: () => void
+}
+
+// Tapbacks that count as a vote for the message they're on
+const APPROVING_REACTIONS: ReactionType[] = ['like', 'love', 'emphasize']
+
+export interface AskOptions {
+    /** Hard limit in ms (default: 5 minutes, 3 for confirmations) */
+    timeout?: number
+    /** When to stop waiting (default: the agent's default policy) */
+    policy?: ResponsePolicy
+    /** Set false to skip reminders for this question (see useReminders) */
+    reminders?: boolean
+    /** Ask the LLM whether replies that aren't threaded answer this question (default: true) */
+    checkRelevance?: boolean
+}
+
+export interface QuestionResult {
+    questionId: string
+    askedAt: Date
+    /** Answer per sender */
+    responses: Map<string, string>
+    /** Everyone who answered, in order */
+    responded: string[]
+    /** Named participants who did not answer */
+    missing: string[]
+    /** Why waiting stopped */
+    outcome: 'complete' | 'timeout' | 'skipped'
+    /** Every message taken as an answer, including ones later changed or retracted */
+    history: GroupResponse[]
+    /** Group messages during the wait that weren't answers to this question */
+    offTopic: GroupResponse[]
+    /** Language each respondent wrote in, where it could be told */
+    languages: Map<string, Language>
+}
+
+interface WaitOptions {
+    /** Question text, quoted in reminders and used to judge relevance */
+    question: string
+    /** Every message sent for this question, to match threaded replies */
+    sentTexts: string[]
+    /** When the question was sent; older messages are not answers */
+    askedAt: Date
+    timeout: number
+    policy?: ResponsePolicy
+    reminders?: boolean
+    checkRelevance?: boolean
+    /** How to turn a message into a response; by default text replies count and tapbacks are ignored */
+    read?: ResponseReader
+    /** Number of options, for range-checking /pick */
+    optionCount?: number
+    /** How follow-up messages combine (default: text) */
+    mode?: AnswerMode
+}
+
+/**
+ * Steps of an interactive planning session, in order
+ */
+export type PlanningStep =
+    'started' | 'calendar' | 'date' | 'weather' | 'location' | 'restaurant' | 'budget' | 'plan' | 'confirmation' | 'complete'
+
+export const PLANNING_STEPS: PlanningStep[] =
+    ['started', 'calendar', 'date', 'weather', 'location', 'restaurant', 'budget', 'plan', 'confirmation', 'complete']
+
 export interface ConversationState {
-    step: 'calendar' | 'location' | 'restaurant' | 'confirmation' | 'complete'
+    /** Last completed step */
+    step: PlanningStep
     responses: Map<string, any>
+    /** Whether everyone answered the latest question */
     allResponded: boolean
 }
 
 /**
  * Interactive Group Chat Agent
- * Asks questions in iMessage group and waits for all responses
+ * Asks questions in iMessage group and waits for responses until the
+ * question's policy is met (by default: every participant has answered)
  */
 export class InteractiveAgent {
-    private sdk: IMessageSDK
-    private client: IMessageClient  // Add client for sending messages
+    private transport: MessagingTransport
+    private bus: MessageBus
+    private stopWatching?: () => void
+    /** When the last question stopped listening, so messages in between are seen */
     private llm: ChatGoogleGenerativeAI
     private groupChatId: string
     private participants: string[]
     private responses: Map<string, GroupResponse[]>
+    private commands?: CommandRouter
+    private registeredCommands: boolean = false
+    private pending?: PendingQuestion
+    private cancelled: boolean = false
+    private defaultPolicy: ResponsePolicy
+    private reminders?: Reminders
+    private assistant?: { botName: string; context: PlanContext }
+    private i18n: Translator = new Translator()
+    /** Language each participant was last seen writing in */
+    private detectedLanguages: Map<string, Language> = new Map()
 
     constructor(
         apiKey: string,
         groupChatId: string,
         participants: string[],
-        client?: IMessageClient  // Optional, will create if not provided
+        transport: MessagingTransport,  // IMessageClient, InMemoryTransport, ...
+        defaultPolicy?: ResponsePolicy  // Default: all participants, or the first answer if none are named
     ) {
-        this.sdk = new IMessageSDK({
-            debug: false,
-            watcher: {
-                pollInterval: 2000,
-                unreadOnly: true,
-                excludeOwnMessages: true
-            }
-        })
-
-        this.client = client || new IMessageClient()  // Use provided or create new
+        this.transport = transport
+        this.bus = MessageBus.shared(transport)
+        this.defaultPolicy = defaultPolicy ?? (
+            participants.length > 0
+                ? ResponsePolicies.allParticipants()
+                : ResponsePolicies.firstN(1)
+        )
 
         this.llm = new ChatGoogleGenerativeAI({
             model: 'gemini-2.5-flash',
@@ -56,69 +172,553 @@ export class InteractiveAgent {
 
     /**
      * Send a question to the group and wait for all responses
+     *
+     * @param options - Timeout in ms, or timeout and completion policy
+     * @returns Answer per sender; use askQuestion() to also see who didn't answer
      */
     async askGroupQuestion(
         question: string,
-        timeout: number = 300000 // 5 minutes default
+        options: number | AskOptions = 300000 // 5 minutes default
     ): Promise<Map<string, string>> {
+        const result = await this.askQuestion(
+            question,
+            typeof options === 'number' ? { timeout: options } : options
+        )
+        return result.responses
+    }
+
+    /**
+     * Send a question to the group and wait until the policy is satisfied
+     * Only messages sent after the question count: replies sent between
+     * questions are not carried over, since they may answer the last one.
+     */
+    async askQuestion(question: string, options: AskOptions = {}): Promise<QuestionResult> {
+        this.throwIfCancelled()
+        const timeout = options.timeout ?? 300000
+
         console.log(`\n📤 Sending question to group...`)
         console.log(`   "${question}"`)
 
         // Send question to group
-        await this.client.send(this.groupChatId, question)  // Use client
+        const askedAt = new Date()
+        await this.transport.send(this.groupChatId, question)
 
-        console.log(`\n⏳ Waiting for at least one response...`)
+        console.log(`\n⏳ Waiting for responses...`)
         console.log(`   Timeout: ${timeout / 1000} seconds\n`)
 
-        // Wait for responses from all participants
-        const responses = await this.waitForResponses(timeout)
+        const result = await this.waitForResponses({
+            question,
+            sentTexts: [question],
+            askedAt,
+            timeout,
+            policy: options.policy,
+            reminders: options.reminders,
+            checkRelevance: options.checkRelevance
+        })
+
+        console.log(`\n✅ Received ${result.responses.size} responses\n`)
+        return result
+    }
 
-        console.log(`\n✅ Received ${responses.size} responses\n`)
-        return responses
+    /**
+     * Ask the group to pick one of several options
+     * Each option is sent as its own message so it can be voted for with a
+     * 👍/❤️ tapback; typed numbers work too.
+     *
+     * @returns Responses map participant to chosen option number ("1", "2", ...) as text
+     */
+    async askChoice(
+        question: string,
+        options: string[],
+        askOptions: number | AskOptions = 300000
+    ): Promise<QuestionResult> {
+        return this.collectChoices(
+            question,
+            options,
+            this.i18n.t('replyWithNumber', { numbers: this.describeNumbers(options.length) }),
+            typeof askOptions === 'number' ? { timeout: askOptions } : askOptions,
+            'vote'
+        )
     }
 
     /**
-     * Wait for responses from all participants
+     * Run a poll, count the votes and announce the results
+     * Free-form replies like "2 or 3, not 1" are understood, and a 👍 on an
+     * option votes for it.
      */
-    private async waitForResponses(timeout: number): Promise<Map<string, string>> {
-        const responses = new Map<string, string>()
-        const respondedParticipants = new Set<string>()
+    async askPoll(question: string, options: string[], pollOptions: PollOptions = {}): Promise<PollResult> {
+        const method = pollOptions.method ?? 'plurality'
+        const instructions = {
+            plurality: this.i18n.t('replyWithNumber', { numbers: this.describeNumbers(options.length) }),
+            approval: this.i18n.t('replyApproval'),
+            ranked: this.i18n.t('replyRanked')
+        }
+
+        // Plurality keeps each person's latest pick; the others build up a list
+        const result = await this.collectChoices(
+            question,
+            options,
+            instructions[method],
+            pollOptions,
+            method === 'plurality' ? 'vote' : 'text'
+        )
+
+        const ballots = new Map<string, Ballot>()
+        for (const [participant, reply] of result.responses) {
+            const ballot = parseBallot(reply, options)
+            if (ballot.choices.length > 0) {
+                ballots.set(participant, ballot)
+            } else {
+                console.log(`   ⚠️  Could not read a vote from ${participant}: "${reply.slice(0, 50)}"`)
+            }
+        }
+
+        const tally = tallyPoll(method, options, ballots)
+        console.log(`   Poll leaders: ${tally.leaders.map(i => options[i]).join(', ') || 'none'}`)
+
+        if (pollOptions.announce !== false) {
+            await this.transport.send(this.groupChatId, formatPollTally(question, tally, this.i18n))
+        }
+
+        return { ...tally, question: result }
+    }
+
+    /**
+     * Send a question and its options (one message each) and collect replies
+     */
+    private async collectChoices(
+        question: string,
+        options: string[],
+        instructions: string,
+        askOptions: AskOptions,
+        mode: AnswerMode
+    ): Promise<QuestionResult> {
+        this.throwIfCancelled()
+        const { timeout = 300000, ...rest } = askOptions
+
+        console.log(`\n📤 Sending choice to group...`)
+        console.log(`   "${question}"`)
+
+        const askedAt = new Date()
+        const prompt = `${question}\n\n${instructions}`
+        await this.transport.send(this.groupChatId, prompt)
+
+        const optionTexts = options.map((option, i) => `${i + 1}. ${option}`)
+        for (const text of optionTexts) {
+            await this.transport.send(this.groupChatId, text)
+        }
+
+        const result = await this.waitForResponses({
+            ...rest,
+            question: `${question}\n${optionTexts.join('\n')}`,
+            sentTexts: [prompt, ...optionTexts],
+            askedAt,
+            timeout,
+            mode,
+            optionCount: options.length,
+            read: message => {
+                if (!message.reaction) return message.text
+                if (message.reaction.removed || !APPROVING_REACTIONS.includes(message.reaction.type)) return null
+
+                const index = optionTexts.findIndex(text => isReactionTo(message.reaction!, text))
+                return index >= 0 ? String(index + 1) : null
+            }
+        })
+
+        console.log(`\n✅ Received ${result.responses.size} choice(s)\n`)
+        return result
+    }
+
+    /**
+     * Wait for responses until the policy is satisfied, /skip, or timeout
+     */
+    private async waitForResponses(options: WaitOptions): Promise<QuestionResult> {
+        const {
+            question,
+            sentTexts,
+            askedAt,
+            timeout,
+            policy = this.defaultPolicy,
+            read = (message: IncomingMessage) => message.reaction ? null : message.text,
+            checkRelevance = true,
+            optionCount
+        } = options
+        const questionId = randomUUID().slice(0, 8)
+        const answers = new AnswerSheet(options.mode ?? 'text')
+        const offTopic: GroupResponse[] = []
+        const languages = new Map<string, Language>()
         const startTime = Date.now()
+        let skipped = false
+
+        const setAside = (message: IncomingMessage, reason: string) => {
+            offTopic.push({ participant: message.sender, message: message.text, timestamp: message.date })
+            console.log(`   💬 Not an answer (${reason}) from ${message.sender}: "${message.text.slice(0, 50)}"`)
+        }
+
+        // Apply the message to the sender's answer (latest vote wins)
+        const record = (sender: string, text: string, replace: boolean = false, timestamp: Date = new Date()): AnswerChange => {
+            const change = answers.add(sender, text, timestamp, replace)
+            if (change === 'ignored') return change
+
+            const current = answers.get(sender)
+            const labels = { added: 'Response', changed: 'Updated answer', retracted: 'Retracted answer' }
+            console.log(`   ✓ ${labels[change]} from ${sender}${current !== undefined ? `: "${current.slice(0, 50)}..."` : ''}`)
+            console.log(`   ${answers.size} response(s) received\n`)
+            return change
+        }
+
+        this.pending = { optionCount, answers, record, skip: () => { skipped = true } }
+
+        // Listen to this group, replaying what arrived while the question was being sent.
+        // Messages from before it was asked aren't replayed: they may be late answers to the last one.
+        this.stopWatching = await this.bus.subscribe(this.groupChatId, async (message: IncomingMessage) => {
+            // Skip our own messages (bot messages)
+            if (message.isFromMe) return
+
+            // Commands are handled by the router, not taken as answers
+            if (this.commands?.isCommand(message.text)) return
 
-        // Start watching for messages
-        await this.sdk.startWatching({
-            onNewMessage: async (message: any) => {
-                // Only process messages from this group
-                if (message.chatId !== this.groupChatId) return
-                
-                // Skip our own messages (bot messages)
-                if (message.isFromMe) return
-
-                // Accept any message from the group (not just specific participants)
-                const sender = message.sender || message.handle || 'user'
-                
-                // Store the response (allow multiple responses from same person)
-                if (!respondedParticipants.has(sender)) {
-                    respondedParticipants.add(sender)
-                    responses.set(sender, message.text)
-                    
-                    console.log(`   ✓ Response from ${sender}: "${message.text.slice(0, 50)}..."`)
-                    console.log(`   ${respondedParticipants.size} response(s) received\n`)
+            // Sent before this question was asked but seen only now, e.g. a late answer to the last one
+            if (message.date < askedAt) {
+                setAside(message, 'sent before the question')
+                return
+            }
+
+            // Taking back a tapback retracts the vote it gave
+            if (message.reaction?.removed) {
+                const undone = read({ ...message, reaction: { ...message.reaction, removed: false } })
+                if (undone !== null && answers.get(message.sender) === undone) {
+                    answers.retract(message.sender)
+                    console.log(`   ✓ Retracted answer from ${message.sender}`)
                 }
+                return
             }
-        })
 
-        // Wait until at least one person responds or timeout
-        while (respondedParticipants.size < 1) {
-            if (Date.now() - startTime > timeout) {
-                console.log(`\n⚠️  Timeout reached. Got ${respondedParticipants.size} response(s)`)
+            const text = read(message)
+            if (text === null) return
+
+            // Tapbacks were already matched to our messages by read()
+            if (!message.reaction) {
+                // Questions for the bot get answered, and the wait goes on
+                if (this.assistant && await this.answerAside(question, message)) {
+                    setAside(message, 'question for the bot')
+                    return
+                }
+
+                if (message.replyTo) {
+                    if (!sentTexts.some(sent => isReferenceTo(message.replyTo!, sent))) {
+                        setAside(message, 'reply to another message')
+                        return
+                    }
+                } else if (checkRelevance && !(await this.isRelevant(question, text))) {
+                    setAside(message, 'off-topic')
+                    return
+                }
+            }
+
+            // Accept any message from the group (not just specific participants)
+            const language = message.reaction ? null : detectLanguage(text)
+            if (language) {
+                languages.set(message.sender, language)
+                this.detectedLanguages.set(message.sender, language)
+            }
+
+            record(message.sender, text, false, message.date)
+        }, { since: askedAt })
+
+        const reminderTimes = this.reminders && options.reminders !== false
+            ? this.reminders.scheduleFor(timeout)
+            : []
+
+        let outcome: QuestionResult['outcome'] = 'complete'
+        while (true) {
+            const elapsed = Date.now() - startTime
+            if (reminderTimes.length > 0 && elapsed >= reminderTimes[0]) {
+                reminderTimes.shift()
+                await this.remind(question, this.participants.filter(p => !answers.has(p)))
+            }
+            if (skipped) {
+                outcome = 'skipped'
+                break
+            }
+            if (policy({ responded: answers.respondents(), participants: this.participants, elapsed })) {
+                break
+            }
+            if (elapsed > timeout) {
+                console.log(`\n⚠️  Timeout reached. Got ${answers.size} response(s)`)
+                outcome = 'timeout'
                 break
             }
             await new Promise(resolve => setTimeout(resolve, 1000))
         }
 
-        this.sdk.stopWatching()
-        return responses
+        this.stopWatching()
+        this.stopWatching = undefined
+        this.pending = undefined
+        this.throwIfCancelled()
+
+        const missing = this.participants.filter(p => !answers.has(p))
+        if (missing.length > 0) {
+            console.log(`   No answer from: ${missing.join(', ')}`)
+        }
+
+        return {
+            questionId,
+            askedAt,
+            responses: answers.toMap(),
+            responded: answers.respondents(),
+            missing,
+            outcome,
+            history: answers.history,
+            offTopic,
+            languages: new Map(Array.from(languages).filter(([participant]) => answers.has(participant)))
+        }
+    }
+
+    /**
+     * Write prompts in the group's language, plus any participant's
+     * preferred language
+     */
+    useLanguages(settings: LanguageSettings): void {
+        this.i18n = new Translator(settings)
+    }
+
+    /**
+     * A message template in the languages this group uses
+     */
+    translate(key: MessageKey, vars: MessageVars = {}): string {
+        return this.i18n.t(key, vars)
+    }
+
+    /**
+     * Answers in English, for analysis
+     * Answers written in another language are translated; if translation
+     * fails the original is kept.
+     */
+    async normalizeResponses(result: QuestionResult): Promise<Map<string, string>> {
+        const normalized = new Map(result.responses)
+
+        for (const [participant, answer] of result.responses) {
+            const language = result.languages.get(participant)
+            if (!language || language === 'en') continue
+
+            const prompt = `
+Translate this ${languageName(language)} group chat reply into English.
+Keep its meaning and tone; don't add anything.
+Return ONLY the translation, no other text.
+
+${answer}
+`
+            try {
+                const translated = await this.llm.invoke(prompt)
+                normalized.set(participant, String(translated.content).trim() || answer)
+            } catch (error) {
+                console.error(`   ⚠️  Could not translate answer from ${participant}:`, error instanceof Error ? error.message : error)
+            }
+        }
+
+        return normalized
+    }
+
+    /**
+     * Language to write to one participant in
+     */
+    private languageOf(participant: string): Language {
+        return this.i18n.languageOf(participant, this.detectedLanguages.get(participant))
+    }
+
+    /**
+     * Answer questions from the group ("is it dog friendly?") while waiting,
+     * using what's been planned so far
+     */
+    useAssistant(config: AssistantConfig = {}): void {
+        this.assistant = {
+            botName: config.botName ?? 'bot',
+            context: { ...config.context }
+        }
+    }
+
+    /**
+     * Add to what the assistant knows about the plan
+     * Notes are appended; other fields replace what was there.
+     */
+    updatePlanContext(update: PlanContext): void {
+        if (!this.assistant) return
+
+        const { notes, ...rest } = update
+        Object.assign(this.assistant.context, rest)
+        if (notes) {
+            this.assistant.context.notes = [...(this.assistant.context.notes ?? []), ...notes]
+        }
+    }
+
+    /**
+     * Reply to a message if it's a question for the bot
+     * If the LLM can't be reached the message is handled as usual.
+     *
+     * @returns true if it was answered
+     */
+    private async answerAside(question: string, message: IncomingMessage): Promise<boolean> {
+        if (!this.assistant || !looksLikeQuestion(message.text, this.assistant.botName)) return false
+
+        const prompt = `
+You are "${this.assistant.botName}", a bot helping a group chat plan an outing. You asked the group:
+"${question}"
+
+What has been planned so far:
+${formatPlanContext(this.assistant.context)}
+
+A group member then wrote:
+"${message.text}"
+
+If this is an answer or vote for your question (even if phrased as a question, like "can we do 2?"),
+or chatter that isn't asking you anything, reply with exactly: PASS
+
+Otherwise answer it in one to three short sentences for a group chat, using only the plan details above.
+If the details don't cover it, say you don't know yet. Don't make up facts.
+Reply in the language the group member wrote in.
+`
+        try {
+            const result = await this.llm.invoke(prompt)
+            const answer = String(result.content).trim()
+            if (!answer || answer.toUpperCase().startsWith('PASS')) return false
+
+            console.log(`   💡 Answering question from ${message.sender}: "${message.text.slice(0, 50)}"`)
+            await this.transport.send(this.groupChatId, `💡 ${answer}`)
+            return true
+        } catch (error) {
+            console.error(`   ⚠️  Could not answer question, handling it as a reply:`, error instanceof Error ? error.message : error)
+            return false
+        }
+    }
+
+    /**
+     * Ask the LLM whether a message answers the question or is side chatter
+     * If the check fails, the message is treated as an answer.
+     */
+    private async isRelevant(question: string, text: string): Promise<boolean> {
+        const prompt = `
+A group chat bot asked this question:
+"${question}"
+
+A group member then wrote:
+"${text}"
+
+Is this message an answer to the question? Short answers like a number, "yes", "no" or a single preference count as answers. Unrelated chatter does not.
+
+Reply with exactly one word: ANSWER or OTHER.
+`
+        try {
+            const result = await this.llm.invoke(prompt)
+            return !String(result.content).toUpperCase().includes('OTHER')
+        } catch (error) {
+            console.error(`   ⚠️  Relevance check failed, counting as an answer:`, error instanceof Error ? error.message : error)
+            return true
+        }
+    }
+
+    /**
+     * Nudge participants who haven't answered, at points through each question's timeout
+     */
+    useReminders(config: ReminderConfig = {}): void {
+        this.reminders = new Reminders(config)
+    }
+
+    private async remind(question: string, missing: string[]): Promise<void> {
+        if (!this.reminders || missing.length === 0) return
+
+        const handles = this.reminders.take(missing)
+        if (handles.length === 0) {
+            console.log(`   🔕 Reminder skipped (quiet hours or reminder cap)`)
+            return
+        }
+
+        console.log(`   ⏰ Reminding ${handles.join(', ')}`)
+
+        if (this.reminders.mode === 'group') {
+            await this.transport.send(this.groupChatId, this.reminders.formatGroupReminder(question, handles, this.i18n))
+            return
+        }
+
+        for (const handle of handles) {
+            try {
+                await this.transport.send(handle, this.reminders.formatDirectReminder(question, this.languageOf(handle)))
+            } catch (error) {
+                console.error(`   ⚠️  Could not remind ${handle}:`, error instanceof Error ? error.message : error)
+            }
+        }
+    }
+
+    /**
+     * Let the group steer open questions with /skip and /pick
+     * Registered commands are no longer taken as answers.
+     *
+     * @param register - Register /skip and /pick on the router; pass false when
+     *                   something else dispatches them (see commandDefinitions())
+     */
+    useCommands(router: CommandRouter, register: boolean = true): void {
+        this.commands = router
+        this.registeredCommands = register
+        if (register) {
+            this.commandDefinitions().forEach(command => router.register(command))
+        }
+    }
+
+    /**
+     * /skip and /pick for this agent's open question
+     */
+    commandDefinitions(): CommandDefinition[] {
+        return [{
+            name: 'skip',
+            description: 'Stop waiting and continue with the answers so far',
+            maxArgs: 0,
+            handler: async ctx => {
+                if (ctx.chatId !== this.groupChatId || !this.pending) {
+                    await ctx.reply(this.i18n.t('noPendingQuestion'))
+                    return
+                }
+                this.pending.skip()
+                await ctx.reply(this.i18n.t('skipping', { count: this.pending.answers.size }))
+            }
+        }, {
+            name: 'pick',
+            description: 'Answer the open question with an option number',
+            usage: '<option number>',
+            minArgs: 1,
+            maxArgs: 1,
+            handler: async ctx => {
+                if (ctx.chatId !== this.groupChatId || !this.pending) {
+                    await ctx.reply(this.i18n.t('noPendingQuestion'))
+                    return
+                }
+
+                const choice = parseInt(ctx.args[0])
+                const max = this.pending.optionCount
+                if (isNaN(choice) || choice < 1 || (max !== undefined && choice > max)) {
+                    await ctx.reply(this.i18n.t('pickRange', { max: max ?? (language => this.i18n.in(language, 'theList')) }))
+                    return
+                }
+
+                if (this.pending.record(ctx.sender, String(choice), true) === 'changed') {
+                    await ctx.reply(this.i18n.t('pickChanged', { sender: ctx.sender, choice }))
+                }
+            }
+        }]
+    }
+
+    /**
+     * Stop the conversation: the open question ends and any ask* call throws
+     */
+    cancel(): void {
+        this.cancelled = true
+        this.pending?.skip()
+    }
+
+    /**
+     * How many answers the open question has, or null if none is open
+     */
+    getPendingResponseCount(): number | null {
+        return this.pending ? this.pending.answers.size : null
     }
 
     /**
@@ -151,47 +751,141 @@ Provide a structured summary that can be used for planning.
      * Send a summary message to the group
      */
     async sendSummary(message: string): Promise<void> {
-        await this.client.send(this.groupChatId, message)  // Use client instead of sdk
+        await this.transport.send(this.groupChatId, message)
         console.log(`\n📤 Summary sent to group\n`)
     }
 
     /**
-     * Ask for confirmation with Yes/No responses
+     * Ask for confirmation
+     * Replies are classified as yes, no, maybe or conditional ("yes but not
+     * Sunday"), and the rule decides whether the group agreed.
+     * A 👍/❤️ tapback on the question counts as YES, 👎 as NO.
      */
-    async askConfirmation(question: string): Promise<{
-        confirmed: boolean
-        responses: Map<string, boolean>
-    }> {
+    async askConfirmation(question: string, options: ConfirmationOptions = {}): Promise<ConfirmationResult> {
+        this.throwIfCancelled()
         console.log(`\n📤 Asking for confirmation...`)
-        
-        await this.client.send(this.groupChatId, `${question}\n\nReply with YES or NO`)  // Use client
+        const { rule = ConfirmationRules.majority(), ...askOptions } = options
+
+        const askedAt = new Date()
+        const prompt = `${question}\n\n${this.i18n.t('replyYesNo')}`
+        await this.transport.send(this.groupChatId, prompt)
 
-        const responses = await this.waitForResponses(180000) // 3 minutes
-        const confirmations = new Map<string, boolean>()
-        let yesCount = 0
+        const { responses, missing } = await this.waitForResponses({
+            ...askOptions,
+            question: prompt,
+            sentTexts: [prompt],
+            askedAt,
+            timeout: askOptions.timeout ?? 180000, // 3 minutes
+            mode: 'vote',
+            read: message => {
+                if (!message.reaction) return message.text
+                if (message.reaction.removed || !isReactionTo(message.reaction, prompt)) return null
 
-        for (const [person, response] of responses.entries()) {
-            const normalized = response.toLowerCase().trim()
-            const isYes = normalized.includes('yes') || 
-                         normalized.includes('👍') || 
-                         normalized === 'y'
-            
-            confirmations.set(person, isYes)
-            if (isYes) yesCount++
+                if (APPROVING_REACTIONS.includes(message.reaction.type)) return 'yes'
+                if (message.reaction.type === 'dislike') return 'no'
+                return null
+            }
+        })
+
+        const answers = new Map<string, ConfirmationAnswer>()
+        for (const [participant, text] of responses.entries()) {
+            const answer = await this.classifyConfirmation(question, participant, text)
+            answers.set(participant, answer)
+            console.log(`   ${participant}: ${answer.intent.toUpperCase()}${answer.condition ? ` (${answer.condition})` : ''}`)
         }
 
-        const confirmed = yesCount >= Math.ceil(this.participants.length / 2)
+        const tally = tallyConfirmations(Array.from(answers.values()), this.participants.length)
+        const confirmed = rule(tally)
 
-        console.log(`   ${yesCount}/${this.participants.length} said YES`)
+        console.log(`   ${tally.yes} yes, ${tally.conditional} conditional, ${tally.no} no, ${tally.maybe} maybe`)
         console.log(`   Decision: ${confirmed ? 'CONFIRMED ✅' : 'NOT CONFIRMED ❌'}\n`)
 
-        return { confirmed, responses: confirmations }
+        return {
+            confirmed,
+            responses: new Map(Array.from(answers, ([participant, answer]) =>
+                [participant, answer.intent === 'yes' || answer.intent === 'conditional']
+            )),
+            answers,
+            tally,
+            changeRequests: Array.from(answers.values()).filter(answer => answer.intent === 'conditional'),
+            missing
+        }
+    }
+
+    /**
+     * Work out what a reply to a yes/no question means
+     * Plain replies are read directly; anything else goes to the LLM.
+     * If the LLM can't be reached the reply counts as maybe.
+     */
+    private async classifyConfirmation(question: string, participant: string, text: string): Promise<ConfirmationAnswer> {
+        const simple = parseSimpleConfirmation(text)
+        if (simple) return { participant, intent: simple, text }
+
+        const prompt = `
+A group chat bot asked the group to confirm this:
+"${question.trim()}"
+
+A group member replied:
+"${text}"
+
+Classify the reply:
+- YES: agrees as-is
+- NO: does not agree
+- MAYBE: undecided or needs to check something
+- CONDITIONAL: agrees only if something changes (e.g. "yes but not Sunday", "ok if we go later")
+
+Watch out for words that only look like answers, e.g. "yesterday" is not "yes".
+
+Return ONLY a JSON object like: {"intent": "CONDITIONAL", "condition": "not on Sunday"}
+Leave "condition" empty unless the intent is CONDITIONAL.
+`
+        try {
+            const result = await this.llm.invoke(prompt)
+            const content = String(result.content).replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
+            const parsed = JSON.parse(content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1))
+
+            const intent = String(parsed.intent).toLowerCase() as ConfirmationIntent
+            if (!['yes', 'no', 'maybe', 'conditional'].includes(intent)) {
+                throw new Error(`Unknown intent "${parsed.intent}"`)
+            }
+
+            const condition = typeof parsed.condition === 'string' ? parsed.condition.trim() : ''
+            return intent === 'conditional'
+                ? { participant, intent, condition: condition || text, text }
+                : { participant, intent, text }
+        } catch (error) {
+            console.error(`   ⚠️  Could not classify reply from ${participant}, counting as maybe:`, error instanceof Error ? error.message : error)
+            return { participant, intent: 'maybe', text }
+        }
+    }
+
+    private throwIfCancelled(): void {
+        if (this.cancelled) {
+            throw new Error('Conversation was cancelled from the group chat')
+        }
+    }
+
+    /**
+     * "1 or 2", "1, 2, or 3", "1, 2 o 3", ...
+     */
+    private describeNumbers(count: number): (language: Language) => string {
+        const numbers = Array.from({ length: count }, (_, i) => String(i + 1))
+        return language => this.i18n.list(language, numbers, 'or')
     }
 
     /**
      * Close the interactive agent
+     * Stops any active watch and removes its commands; the transport belongs
+     * to the caller and stays open
      */
     async close(): Promise<void> {
-        await this.sdk.close()
+        this.stopWatching?.()
+        this.stopWatching = undefined
+        if (this.registeredCommands) {
+            this.commands?.unregister('skip')
+            this.commands?.unregister('pick')
+        }
+        this.commands = undefined
+        this.registeredCommands = false
     }
 }
@@ -1,27 +1,158 @@
-import { HolidayPlanner, PlanningParams } from './holiday-planner.js'
-import { InteractiveAgent } from './interactive-agent.js'
-import { CalendarAgent } from './calendar-agent.js'
-import { WeatherAgent } from './weather-agent.js'
+import { fileURLToPath } from 'url'
+import { HolidayPlanner, type HolidayPlan, type PlanComponent, type PlanRevision, type PlanningParams } from './holiday-planner.js'
+import { diffPlans, formatPlanDiff, guessComponents } from './plan-revision.js'
+import { InteractiveAgent, PLANNING_STEPS, type ConversationState, type PlanningStep, type QuestionResult } from './interactive-agent.js'
+import type { SessionStore } from './session-store.js'
+import type { ResponsePolicy } from './response-policies.js'
+import type { ReminderConfig } from './reminders.js'
+import type { ConfirmationAnswer, ConfirmationRule } from './confirmation.js'
+import type { AssistantConfig } from './assistant.js'
+import type { PollMethod } from './poll.js'
+import { WorkflowEngine, loadWorkflow, type WorkflowActions, type WorkflowDefinition } from './workflow.js'
+import { Translator, formatMoney, type Language, type MessageKey, type MessageVars } from '../i18n.js'
+import { CalendarAgent, type CalendarSlot, type FreeTimeResult } from './calendar-agent.js'
+import { WeatherAgent, type WeatherData } from './weather-agent.js'
 import { CalendarOAuthManager } from './calendar-oauth.js'
 import { ChatGoogleGenerativeAI } from '@langchain/google-genai'
-import { IMessageClient } from '../client.js'
+import type { MessagingTransport } from '../transport.js'
+import type { CommandDefinition, CommandRouter } from '../command-router.js'
+import { GroupsConfig, type GroupConfig } from '../groups-config.js'
 
 export interface InteractivePlanningResult {
     finalPlan: any
     conversationLog: string[]
     allResponses: Map<string, any>
+    /** Conditional confirmations ("yes but not Sunday") to apply to the plan */
+    changeRequests: ConfirmationAnswer[]
+    /** Whether the group approved the final plan */
+    confirmed: boolean
+    /** Revision rounds it took */
+    revisions: number
+    /** Set when a session store is configured; pass to resume() */
+    sessionId?: string
+}
+
+export interface PlanningInput {
+    /** Defaults to the group's home city */
+    city?: string
+    /** Defaults to the planner's participants */
+    participants?: string[]
+    startDate: Date
+    endDate: Date
+    duration?: number
+    startLocation?: string
+}
+
+// What a session is started with, once defaults are filled in
+type SessionParams = PlanningInput & { city: string; participants: string[] }
+
+type Preferences = NonNullable<PlanningParams['preferences']>
+
+// Inputs of the interactive.* workflow actions
+interface CalendarInput {
+    participants: string[]
+    startDate: Date | string
+    endDate: Date | string
+    duration: number
+}
+
+interface ChooseDateInput {
+    slots: CalendarSlot[]
+    limit?: number
+    timeout?: number
+    method?: PollMethod
+}
+
+interface AskInput {
+    prompt: MessageKey
+    vars?: MessageVars
+    /** Names the answers in logs and reminders, e.g. topicFood */
+    topic: MessageKey
+    timeout?: number
+    /** Key the normalized answers are kept under in allResponses */
+    save: string
+    analyze: 'activities' | 'cuisine' | 'budget'
+}
+
+interface ReviseInput {
+    plan: HolidayPlan
+    slot: CalendarSlot
+    slots: CalendarSlot[]
+    confirmation: { confirmed: boolean; changeRequests: ConfirmationAnswer[] }
+    preferences: Preferences
+}
+
+interface PlanOutcome {
+    plan: HolidayPlan
+    confirmed: boolean
+    changeRequests: ConfirmationAnswer[]
+    revisions: number
+}
+
+const DEFAULT_WORKFLOW = fileURLToPath(new URL('../../workflows/interactive-planner.json', import.meta.url))
+
+function isPlanningStep(id: string): id is PlanningStep {
+    return (PLANNING_STEPS as string[]).includes(id)
+}
+
+/**
+ * Throw unless every step id is a PlanningStep
+ * Step ids are the session's checkpoint names, so a renamed step would stop resume from finding it.
+ */
+function checkStepIds(workflow: WorkflowDefinition): WorkflowDefinition {
+    const unknown = workflow.steps
+        .map(step => step.id)
+        .filter((id): id is string => id !== undefined && !isPlanningStep(id))
+    if (unknown.length > 0) {
+        throw new Error(
+            `Workflow ${workflow.name} has step ids that aren't planning steps: ${unknown.join(', ')} ` +
+            `(expected ${PLANNING_STEPS.join(', ')})`
+        )
+    }
+    return workflow
 }
 
 export interface InteractivePlannerConfig {
     apiKey: string
+    /** Chat ID or alias from the groups config */
     groupChatId: string
-    participants: string[]
+    /** Defaults to the group's configured participants */
+    participants?: string[]
+    transport: MessagingTransport
+    /** Defaults to GroupsConfig.load() */
+    groups?: GroupsConfig
     googleClientId?: string
     googleClientSecret?: string
     oauthRedirectUri?: string
     useOAuth?: boolean
+    /** OAuth manager shared with other groups' planners; used instead of the Google client settings */
+    oauth?: CalendarOAuthManager
+    /** Adds /status, /cancel, /skip and /pick to this router */
+    commands?: CommandRouter
+    /** Register the commands on `commands` (default: true); false when the caller dispatches commandDefinitions() itself */
+    registerCommands?: boolean
+    /** When each question stops waiting (default: all participants answered) */
+    responsePolicy?: ResponsePolicy
+    /** Nudge people who haven't answered; quiet hours use the group's time zone */
+    reminders?: ReminderConfig
+    /** When the group counts as approving the timeline (default: majority of answers) */
+    confirmationRule?: ConfirmationRule
+    /** Answer the group's questions while waiting for replies; false to turn off (default: on) */
+    assistant?: AssistantConfig | false
+    /** Language for group messages (default: the group's configured language, else en) */
+    language?: Language
+    /** Participants who prefer another language; added to the group's configured ones */
+    participantLanguages?: Record<string, Language>
+    /** Checkpoint each step so an interrupted session can be resumed */
+    sessions?: SessionStore
+    /** How many times to revise a plan the group turns down (default: 2) */
+    maxRevisions?: number
+    /** The steps to run, in order (default: workflows/interactive-planner.json) */
+    workflow?: WorkflowDefinition
 }
 
+const PLAN_COMPONENTS: PlanComponent[] = ['date', 'location', 'restaurant', 'transport']
+
 /**
  * Interactive Holiday Planner
  * 
@@ -33,7 +164,11 @@ export interface InteractivePlannerConfig {
  * 4. Ask about transportation preferences
  * 5. Generate final plan with costs
  * 6. Ask for confirmation
- * 7. Send final plan to group
+ * 7. Revise what the group wants changed until they confirm, then send final plan
+ *
+ * Steps 1-7 run from workflows/interactive-planner.json, so their order,
+ * timeouts and wiring live in one place; each step with an id is a
+ * session checkpoint.
  */
 export class InteractiveHolidayPlanner {
     private planner: HolidayPlanner
@@ -44,16 +179,27 @@ export class InteractiveHolidayPlanner {
     private llm: ChatGoogleGenerativeAI
     private conversationLog: string[]
     private config: InteractivePlannerConfig
+    private group: GroupConfig | null
+    private groupChatId: string
+    private participants: string[]
+    private status: string = 'Not started'
+    private registeredCommands: boolean = false
+    private i18n: Translator
+    private state: ConversationState = { step: 'started', responses: new Map(), allResponded: false }
+    private sessionId?: string
 
     constructor(config: InteractivePlannerConfig) {
         this.config = config
+        this.group = (config.groups ?? GroupsConfig.load()).get(config.groupChatId)
+        this.groupChatId = this.group?.chatId ?? config.groupChatId
+        this.participants = config.participants ?? this.group?.participants ?? []
         this.planner = new HolidayPlanner(config.apiKey)
-        const client = new IMessageClient()  // Create client once
         this.interactive = new InteractiveAgent(
             config.apiKey,
-            config.groupChatId,
-            config.participants,
-            client  // Pass client to InteractiveAgent
+            this.groupChatId,
+            this.participants,
+            config.transport,
+            config.responsePolicy
         )
         this.calendar = new CalendarAgent(config.apiKey)
         this.weather = new WeatherAgent(config.apiKey)
@@ -64,8 +210,33 @@ export class InteractiveHolidayPlanner {
         })
         this.conversationLog = []
 
+        if (config.commands) {
+            this.useCommands(config.commands, config.registerCommands ?? true)
+        }
+
+        const languages = {
+            group: config.language ?? this.group?.language,
+            participants: { ...this.group?.participantLanguages, ...config.participantLanguages }
+        }
+        this.i18n = new Translator(languages)
+        this.interactive.useLanguages(languages)
+
+        if (config.assistant !== false) {
+            this.interactive.useAssistant(config.assistant)
+        }
+
+        if (config.reminders) {
+            const quietHours = config.reminders.quietHours
+            this.interactive.useReminders({
+                ...config.reminders,
+                quietHours: quietHours && { timeZone: this.group?.timeZone, ...quietHours }
+            })
+        }
+
         // Initialize OAuth if credentials provided
-        if (config.useOAuth && config.googleClientId && config.googleClientSecret) {
+        if (config.oauth) {
+            this.oauthManager = config.oauth
+        } else if (config.useOAuth && config.googleClientId && config.googleClientSecret) {
             this.oauthManager = new CalendarOAuthManager(
                 config.googleClientId,
                 config.googleClientSecret,
@@ -77,7 +248,7 @@ export class InteractiveHolidayPlanner {
     /**
      * Connect calendars via OAuth (optional step 0)
      */
-    async connectCalendars(imessageClient: IMessageClient): Promise<boolean> {
+    async connectCalendars(transport: MessagingTransport = this.config.transport): Promise<boolean> {
         if (!this.oauthManager) {
             console.log('⚠️  OAuth not configured, skipping calendar connection')
             return false
@@ -89,24 +260,26 @@ export class InteractiveHolidayPlanner {
 
             // Send connection link to group (this also starts the server)
             await this.oauthManager.sendConnectionLinkToGroup(
-                this.config.groupChatId,
-                imessageClient
+                this.groupChatId,
+                transport,
+                this.participants
             )
 
             // Wait for at least 50% of participants to connect (5 minute timeout)
             await this.oauthManager.waitForConnections(
-                this.config.participants,
+                this.participants,
                 300000, // 5 minutes
-                0.5 // 50% minimum threshold
+                0.5, // 50% minimum threshold
+                this.groupChatId
             )
 
             console.log('✅ All calendars connected!')
             this.log('All participants connected their calendars')
 
             // Update calendar agent with OAuth clients
-            const connections = this.oauthManager.getConnections()
+            const connections = this.oauthManager.getConnections(this.groupChatId)
             for (const [email, connection] of connections) {
-                const authClient = this.oauthManager.getAuthClientForUser(email)
+                const authClient = this.oauthManager.getAuthClientForUser(email, this.groupChatId)
                 if (authClient) {
                     // Calendar agent will use these OAuth clients for API calls
                     this.calendar = new CalendarAgent(
@@ -126,217 +299,557 @@ export class InteractiveHolidayPlanner {
 
     /**
      * Start the interactive planning process
+     * With a session store, every step is checkpointed; see resume().
+     */
+    async startPlanning(planningInput: PlanningInput): Promise<InteractivePlanningResult> {
+        const city = planningInput.city ?? this.group?.homeCity
+        if (!city) {
+            throw new Error(`No city given and group ${this.config.groupChatId} has no homeCity configured`)
+        }
+        const params: SessionParams = {
+            ...planningInput,
+            city,
+            participants: planningInput.participants ?? this.participants
+        }
+
+        this.state = { step: 'started', responses: new Map(), allResponded: false }
+        if (this.config.sessions) {
+            const session = this.config.sessions.create(this.groupChatId, params)
+            this.sessionId = session.id
+            console.log(`💾 Session ${session.id} - if planning stops, continue with resume('${session.id}')`)
+        }
+
+        return this.run(params)
+    }
+
+    /**
+     * Continue a planning session from its last completed step
+     * Answers already given are reused, so the group isn't asked again.
+     */
+    async resume(sessionId: string): Promise<InteractivePlanningResult> {
+        const sessions = this.config.sessions
+        if (!sessions) {
+            throw new Error('Resuming a session needs a session store (config.sessions)')
+        }
+
+        const session = sessions.get<SessionParams>(sessionId)
+        if (!session) {
+            throw new Error(`Planning session ${sessionId} not found`)
+        }
+        if (session.groupChatId !== this.groupChatId) {
+            throw new Error(`Planning session ${sessionId} belongs to group ${session.groupChatId}`)
+        }
+
+        console.log(`💾 Resuming session ${sessionId} after step "${session.state.step}"`)
+        this.sessionId = session.id
+        this.state = session.state
+        this.conversationLog = [...session.log]
+        this.log(`Resumed session ${session.id}`)
+        sessions.setStatus(session.id, 'active')
+
+        return this.run(session.params)
+    }
+
+    private async run(params: SessionParams): Promise<InteractivePlanningResult> {
+        try {
+            const result = await this.plan(params)
+            if (this.sessionId) this.config.sessions?.setStatus(this.sessionId, 'complete')
+            return result
+        } catch (error) {
+            if (this.sessionId) {
+                this.config.sessions?.setStatus(
+                    this.sessionId,
+                    this.status === 'Cancelled' ? 'cancelled' : 'failed',
+                    error instanceof Error ? error.message : String(error)
+                )
+            }
+            throw error
+        }
+    }
+
+    /**
+     * Run a planning step, or reuse its output if this session already
+     * completed it
      */
-    async startPlanning(params: {
-        city: string
-        participants: string[]
-        startDate: Date
-        endDate: Date
-        duration?: number
-        startLocation?: string
-    }): Promise<InteractivePlanningResult> {
+    private async step<T>(name: PlanningStep, run: () => Promise<T>): Promise<T> {
+        const sessions = this.config.sessions
+        if (this.sessionId && sessions) {
+            const saved = sessions.getStep<T>(this.sessionId, name)
+            if (saved !== undefined) {
+                console.log(`💾 Reusing "${name}" from session ${this.sessionId}`)
+                return saved
+            }
+        }
+
+        const output = await run()
+        this.state.step = name
+        if (this.sessionId && sessions) {
+            sessions.saveStep(this.sessionId, name, output, this.state, this.conversationLog)
+        }
+        return output
+    }
+
+    private async plan(params: SessionParams): Promise<InteractivePlanningResult> {
+        this.interactive.updatePlanContext({ city: params.city })
+
+        const workflow = checkStepIds(this.config.workflow ?? loadWorkflow(DEFAULT_WORKFLOW))
+        const revise = workflow.steps.find(step => step.type === 'agent' && step.call === 'interactive.revise')
+        if (!revise?.id) {
+            throw new Error(`Workflow ${workflow.name} needs an interactive.revise step with an id to produce the final plan`)
+        }
+
         console.log('🎯 Starting Interactive Holiday Planning...\n')
         console.log('=' .repeat(60))
 
-        const allResponses = new Map<string, any>()
+        const engine = new WorkflowEngine(this.interactive, this.workflowActions(params), params.participants, {
+            checkpoint: async (step, run) => {
+                // The workflow's step ids are the session's checkpoint names
+                if (!isPlanningStep(step.id)) {
+                    throw new Error(`Workflow ${workflow.name} step ${step.id} is not a planning step`)
+                }
+                const output = await this.step(step.id, run)
+                if (step.type === 'agent') {
+                    this.restoreContext(step.call, output)
+                }
+                return output
+            }
+        })
+        const { outputs } = await engine.run(workflow, { ...params, currency: this.group?.currency })
+        const outcome = outputs[revise.id] as PlanOutcome
+
+        this.status = 'Planning complete'
+        console.log('\n✨ Interactive planning complete!\n')
+
+        return {
+            finalPlan: outcome.plan,
+            confirmed: outcome.confirmed,
+            revisions: outcome.revisions,
+            conversationLog: this.conversationLog,
+            allResponses: this.state.responses,
+            changeRequests: outcome.changeRequests,
+            sessionId: this.sessionId
+        }
+    }
+
+    /**
+     * The planning steps workflow files can call; see workflows/interactive-planner.json
+     *
+     * - interactive.calendar {participants, startDate, endDate, duration}
+     * - interactive.chooseDate {slots, limit, timeout, method}
+     * - interactive.weather {city, slot}
+     * - interactive.ask {prompt, vars, topic, timeout, save, analyze}
+     * - interactive.plan {preferences}
+     * - interactive.confirm {plan}
+     * - interactive.revise {plan, slot, slots, confirmation, preferences}
+     */
+    private workflowActions(params: SessionParams): WorkflowActions {
+        return {
+            'interactive.calendar': (input: CalendarInput) => this.findFreeTime(input),
+            'interactive.chooseDate': (input: ChooseDateInput) => this.chooseDate(input),
+            'interactive.weather': (input: { city: string; slot: CalendarSlot }) => this.checkWeather(input.city, input.slot),
+            'interactive.ask': (input: AskInput) => this.ask(input),
+            'interactive.plan': (input: { preferences: Preferences }) => this.generatePlan(params, input.preferences),
+            'interactive.confirm': (input: { plan: HolidayPlan }) => this.confirmPlan(input.plan),
+            'interactive.revise': (input: ReviseInput) => this.revise(params, input)
+        }
+    }
+
+    /**
+     * Context the assistant needs from a step, also when the step's output
+     * comes from a resumed session
+     */
+    private restoreContext(call: string, output: unknown): void {
+        if (call === 'interactive.chooseDate') {
+            const slot = output as CalendarSlot
+            this.interactive.updatePlanContext({ date: `${slot.date} (${slot.start} - ${slot.end})` })
+        } else if (call === 'interactive.weather') {
+            this.interactive.updatePlanContext({ weather: output as WeatherData })
+        } else if (call === 'interactive.plan') {
+            this.updatePlanContext(output as HolidayPlan)
+        }
+    }
 
-        // STEP 1: Find free time slots from calendars
+    private planningParams(params: SessionParams, preferences: Preferences): PlanningParams {
+        return {
+            city: params.city,
+            participants: params.participants,
+            startDate: params.startDate,
+            endDate: params.endDate,
+            duration: params.duration || 6,
+            startLocation: params.startLocation,
+            preferences,
+            currency: this.group?.currency
+        }
+    }
+
+    private async findFreeTime(input: CalendarInput): Promise<FreeTimeResult> {
         console.log('\n📅 STEP 1: Analyzing Calendars\n')
         this.log('Step 1: Analyzing calendars for free time slots')
 
         const freeTimeSlots = await this.calendar.findFreeTime(
-            params.participants,
-            params.startDate,
-            params.endDate,
-            params.duration || 6
+            input.participants,
+            new Date(input.startDate),
+            new Date(input.endDate),
+            input.duration
         )
 
         if (freeTimeSlots.availableSlots.length === 0) {
-            const message = '❌ No common free time slots found for everyone. Please adjust your date range.'
-            await this.interactive.sendSummary(message)
-            throw new Error(message)
+            await this.interactive.sendSummary(this.i18n.t('noFreeSlots'))
+            throw new Error('❌ No common free time slots found for everyone. Please adjust your date range.')
         }
+        return freeTimeSlots
+    }
 
-        // Send available dates to group and ask for choice
-        const dateOptions = freeTimeSlots.availableSlots.slice(0, 3)
-            .map((slot, i) => `${i + 1}. ${slot.date} (${slot.start} - ${slot.end})`)
-            .join('\n')
+    private async chooseDate(input: ChooseDateInput): Promise<CalendarSlot> {
+        const slots = input.slots.slice(0, input.limit ?? 3)
+        const dateOptions = slots.map(slot => `${slot.date} (${slot.start} - ${slot.end})`)
 
         this.log('Asking group to choose a date')
 
-        const dateChoiceResponses = await this.interactive.askGroupQuestion(
-            `🎉 Found free time slots for everyone!\n\n${dateOptions}\n\nLet's plan something!\n\n` +
-            `📅 Reply with 1, 2, or 3 to choose your preferred date...`,
-            120000 // 2 minutes timeout
+        const datePoll = await this.interactive.askPoll(
+            this.i18n.t('askDate'),
+            dateOptions,
+            { timeout: input.timeout, method: input.method }
         )
+        const dateChoiceResponses = datePoll.question.responses
+        await this.reviewAnswers('topicDate', datePoll.question)
+        this.state.allResponded = datePoll.question.missing.length === 0
 
         console.log(`\n✅ Collected ${dateChoiceResponses.size} date choice(s)\n`)
         this.log(`Date choices: ${Array.from(dateChoiceResponses.values()).join(', ')}`)
 
-        // Parse the choice (get most common choice, default to 1)
-        const choices = Array.from(dateChoiceResponses.values())
-            .map(c => parseInt(c.trim()))
-            .filter(c => c >= 1 && c <= 3)
-        
-        const chosenIndex = choices.length > 0 ? choices[0] - 1 : 0
-        const chosenSlot = freeTimeSlots.availableSlots[chosenIndex]
-
-        await this.interactive.sendSummary(
-            `✅ Confirmed! Planning for ${chosenSlot.date} (${chosenSlot.start} - ${chosenSlot.end})`
-        )
+        // Most votes wins; a tie goes to the earliest slot, no votes to the first
+        if (datePoll.isTie) {
+            this.log(`Date tie between options ${datePoll.leaders.map(i => i + 1).join(', ')}, taking the earliest`)
+        }
+        const slot = slots[datePoll.leaders[0] ?? 0]
+
+        await this.interactive.sendSummary(this.i18n.t('dateConfirmed', {
+            date: slot.date,
+            start: slot.start,
+            end: slot.end
+        }))
+        return slot
+    }
 
-        // STEP 1.5: Check weather for the chosen date
+    private async checkWeather(city: string, slot: CalendarSlot): Promise<WeatherData> {
         console.log('\n🌤️  STEP 1.5: Checking Weather\n')
         this.log('Step 1.5: Fetching weather forecast')
 
-        const chosenDate = new Date(chosenSlot.date)
-        const weatherData = await this.weather.getWeatherForecast({
-            city: params.city,
-            date: chosenDate
+        const forecast = await this.weather.getWeatherForecast({
+            city,
+            date: new Date(slot.date)
         })
 
-        const weatherReport = this.weather.formatWeatherReport(weatherData)
-        await this.interactive.sendSummary(weatherReport)
-        
-        console.log(`\n✅ Weather forecast sent\n`)
-        this.log(`Weather: ${weatherData.condition}, ${weatherData.temperature.min}-${weatherData.temperature.max}°C`)
-
-        // STEP 2: Ask about location preferences
-        console.log('\n📍 STEP 2: Getting Location Preferences\n')
-        this.log('Step 2: Asking about location preferences')
-
-        const locationResponses = await this.interactive.askGroupQuestion(
-            `📍 What kind of place would you like to visit on ${chosenSlot.date}?\n\n` +
-            `Examples: outdoor park, museum, beach, shopping district, hiking trail, etc.\n\n` +
-            `⏳ Reply with your preference...`,
-            300000
-        )
-
-        allResponses.set('location_preferences', locationResponses)
-        console.log(`✅ Collected ${locationResponses.size} location responses\n`)
-
-        // Analyze location responses
-        const locationPrefs = await this.analyzeLocationPreferences(locationResponses)
-        this.log(`Location preferences: ${JSON.stringify(locationPrefs)}`)
-
-        // STEP 3: Ask about food preferences
-        console.log('\n🍽️  STEP 3: Getting Restaurant Preferences\n')
-        this.log('Step 3: Asking about restaurant preferences')
-
-        const foodResponses = await this.interactive.askGroupQuestion(
-            `🍽️  What kind of food would you like?\n\n` +
-            `Examples: Italian, Mexican, Chinese, Japanese, American, vegetarian, etc.\n\n` +
-            `⏳ Reply with your preference...`,
-            300000
-        )
-
-        allResponses.set('food_preferences', foodResponses)
-        console.log(`✅ Collected ${foodResponses.size} food responses\n`)
+        await this.interactive.sendSummary(this.weather.formatWeatherReport(forecast))
 
-        const foodPrefs = await this.analyzeFoodPreferences(foodResponses)
-        this.log(`Food preferences: ${JSON.stringify(foodPrefs)}`)
-
-        // STEP 4: Ask about budget
-        console.log('\n💰 STEP 4: Getting Budget Preferences\n')
-        this.log('Step 4: Asking about budget')
-
-        const budgetResponses = await this.interactive.askGroupQuestion(
-            `💰 What's your budget per person?\n\n` +
-            `Reply with: LOW ($30-50), MEDIUM ($50-100), or HIGH ($100+)\n\n` +
-            `⏳ Reply with your budget...`,
-            300000
-        )
+        console.log(`\n✅ Weather forecast sent\n`)
+        this.log(`Weather: ${forecast.condition}, ${forecast.temperature.min}-${forecast.temperature.max}°C`)
+        return forecast
+    }
 
-        allResponses.set('budget', budgetResponses)
-        console.log(`✅ Collected ${budgetResponses.size} budget responses\n`)
+    /**
+     * Ask the group a question and boil the answers down to preferences
+     */
+    private async ask(input: AskInput): Promise<string[] | string> {
+        const topic = this.i18n.in('en', input.topic)
+        console.log(`\n❓ Asking about ${topic}\n`)
+        this.log(`Asking about ${topic}`)
 
-        const budget = await this.analyzeBudget(budgetResponses)
-        this.log(`Budget: ${budget}`)
+        const result = await this.interactive.askQuestion(this.i18n.t(input.prompt, input.vars), {
+            timeout: input.timeout
+        })
+        const responses = await this.interactive.normalizeResponses(result)
+        await this.reviewAnswers(input.topic, result)
+        this.state.allResponded = result.missing.length === 0
+
+        this.state.responses.set(input.save, responses)
+        console.log(`✅ Collected ${responses.size} ${topic} responses\n`)
+
+        const analyzed = input.analyze === 'activities'
+            ? await this.analyzeLocationPreferences(responses)
+            : input.analyze === 'cuisine'
+                ? await this.analyzeFoodPreferences(responses)
+                : await this.analyzeBudget(responses)
+        this.log(`${topic}: ${JSON.stringify(analyzed)}`)
+        return analyzed
+    }
 
-        // STEP 5: Generate plan based on responses
+    private async generatePlan(params: SessionParams, preferences: Preferences): Promise<HolidayPlan> {
         console.log('\n🔧 STEP 5: Generating Plan\n')
         this.log('Step 5: Generating complete plan')
 
-        await this.interactive.sendSummary(
-            `⏳ Great! Planning your perfect outing based on your preferences...\n\n` +
-            `This will take a moment...`
-        )
-
-        const planningParams: PlanningParams = {
-            city: params.city,
-            participants: params.participants,
-            startDate: params.startDate,
-            endDate: params.endDate,
-            duration: params.duration || 6,
-            startLocation: params.startLocation,
-            preferences: {
-                activities: locationPrefs,
-                cuisine: foodPrefs,
-                budget: budget as 'low' | 'medium' | 'high'
-            }
-        }
+        await this.interactive.sendSummary(this.i18n.t('planning'))
 
-        const plan = await this.planner.planOuting(planningParams)
+        return this.planner.planOuting(this.planningParams(params, preferences))
+    }
 
-        // STEP 6: Send POTENTIAL TIMELINE and wait for confirmation
+    /**
+     * Send the potential timeline and wait for the group's verdict
+     */
+    private async confirmPlan(plan: HolidayPlan): Promise<{ confirmed: boolean; changeRequests: ConfirmationAnswer[] }> {
         console.log('\n📋 STEP 6: Sending Potential Timeline & Waiting for Confirmation\n')
         this.log('Step 6: Presenting potential timeline to group')
 
-        const timelineMessage = `📅 POTENTIAL TIMELINE\n\n` +
-            `Based on your preferences, here's the plan:\n\n` +
+        const timelineMessage = `${this.i18n.t('timelineIntro')}\n\n` +
             this.formatPlanForGroup(plan) +
-            `\n\n⏳ Please review and let us know if this works...`
-        
+            `\n\n${this.i18n.t('timelineReview')}`
+
         await this.interactive.sendSummary(timelineMessage)
         console.log('⏳ Waiting for everyone to review the timeline...\n')
 
         const confirmation = await this.interactive.askConfirmation(
-            `\n✅ Does this timeline work for everyone?\n\n` +
-            `Reply YES to confirm or NO if you need changes.\n\n` +
-            `⏳ Waiting for your responses...`
+            this.i18n.t('askTimeline'),
+            { rule: this.config.confirmationRule }
         )
+        this.state.allResponded = confirmation.missing.length === 0
 
-        allResponses.set('confirmation', confirmation.responses)
+        this.state.responses.set('confirmation', confirmation.responses)
         console.log(`\n${confirmation.confirmed ? '✅ Timeline approved by group!' : '❌ Timeline needs changes'}\n`)
 
-        if (!confirmation.confirmed) {
-            console.log('\n❌ STEP 7: Timeline Not Approved\n')
-            this.log('Timeline not confirmed, asking for adjustments')
-            
+        for (const request of confirmation.changeRequests) {
+            this.log(`Change request from ${request.participant}: ${request.condition}`)
+        }
+        if (confirmation.changeRequests.length > 0) {
+            this.state.responses.set('change_requests', confirmation.changeRequests)
+        }
+        return { confirmed: confirmation.confirmed, changeRequests: confirmation.changeRequests }
+    }
+
+    /**
+     * Revise the plan until the group approves it or we run out of rounds,
+     * then send the final plan
+     */
+    private async revise(params: SessionParams, input: ReviseInput): Promise<PlanOutcome> {
+        const allResponses = this.state.responses
+        const planningParams = this.planningParams(params, input.preferences)
+        const maxRevisions = this.config.maxRevisions ?? 2
+        let current: HolidayPlan = input.plan
+        let slot = input.slot
+        let approved = input.confirmation.confirmed
+        let requests = input.confirmation.changeRequests
+        let rounds = 0
+
+        while (!approved && rounds < maxRevisions) {
+            rounds++
+            console.log(`\n🔁 STEP 7: Revising the Plan (round ${rounds} of ${maxRevisions})\n`)
+            this.log(`Step 7: Revision round ${rounds}`)
+
+            const feedback = await this.collectAdjustments(requests)
+            allResponses.set('adjustments', feedback)
+
+            const revision = await this.classifyFeedback(feedback)
+            if (revision.components.length === 0) {
+                this.log('Could not tell what to change from the feedback')
+                await this.interactive.sendSummary(this.i18n.t('revisionUnclear'))
+                break
+            }
+            this.log(`Revising: ${revision.components.join(', ')}`)
+
+            if (revision.components.includes('date')) {
+                slot = await this.chooseOtherDate(input.slots, slot, params.city)
+                revision.slot = slot
+            }
+
+            const components = revision.components.map(component => this.componentTopic(component))
+            await this.interactive.sendSummary(this.i18n.t('revising', {
+                components: language => this.i18n.list(language, components.map(topic => topic(language)), 'and')
+            }))
+
+            const revised = await this.planner.revisePlan(current, planningParams, revision)
+            const changes = diffPlans(current, revised)
+            current = revised
+            this.updatePlanContext(current)
+            this.log(`Revision ${rounds} changes: ${changes.map(change => `${change.field} ${change.before} -> ${change.after}`).join('; ') || 'none'}`)
+
             await this.interactive.sendSummary(
-                `📝 Got it! The timeline needs adjustments.\n\n` +
-                `What would you like to change? (location, restaurant, transportation, or date)`
+                `${this.i18n.t('revisedPlan', { round: rounds, max: maxRevisions })}\n\n` +
+                (changes.length > 0
+                    ? `${this.i18n.t('revisionChanges')}\n${formatPlanDiff(changes, this.i18n)}`
+                    : this.i18n.t('revisionNoChanges')) +
+                `\n\n${this.formatPlanForGroup(current)}`
             )
-            
-            const adjustmentResponses = await this.interactive.askGroupQuestion(
-                `💬 Please tell us what needs to change...`,
-                300000
+
+            const confirmation = await this.interactive.askConfirmation(
+                this.i18n.t('askTimeline'),
+                { rule: this.config.confirmationRule }
             )
+            approved = confirmation.confirmed
+            requests = confirmation.changeRequests
+            allResponses.set('confirmation', confirmation.responses)
+            console.log(`\n${approved ? '✅ Revised plan approved by group!' : '❌ Revised plan needs changes'}\n`)
+        }
 
-            allResponses.set('adjustments', adjustmentResponses)
-            this.log('Got adjustment requests, would regenerate plan here')
-            console.log('⚠️  Plan requires revisions based on feedback\n')
-        } else {
-            // STEP 7: Send final confirmation
+        if (approved) {
+            // Send final confirmation
             console.log('\n🎉 STEP 7: Sending Final Confirmed Plan\n')
             this.log('Step 7: Sending final confirmed plan')
 
-            const finalMessage = this.planner.formatForIMessage(plan)
+            const finalMessage = this.planner.formatForIMessage(current)
             await this.interactive.sendSummary(
-                `🎉 FINAL PLAN - CONFIRMED!\n\n${finalMessage}\n\n` +
-                `✅ Everyone has approved this timeline!\n` +
-                `📅 Mark your calendars!\n` +
-                `See you all on ${chosenSlot.date}! 🙌`
+                `${this.i18n.t('finalPlanTitle')}\n\n${finalMessage}\n\n` +
+                this.i18n.t('finalPlanApproved', { date: slot.date })
             )
+            if (requests.length > 0) {
+                await this.interactive.sendSummary(
+                    `${this.i18n.t('notedRequests')}\n\n${this.formatChangeRequests(requests)}`
+                )
+            }
             console.log('✅ Final plan sent to group!\n')
+        } else if (rounds === maxRevisions) {
+            this.log(`No agreement after ${rounds} revision(s)`)
+            await this.interactive.sendSummary(this.i18n.t('revisionLimit', { rounds }))
+            console.log('⚠️  Plan not approved, revision limit reached\n')
         }
 
-        console.log('\n✨ Interactive planning complete!\n')
+        return { plan: current, confirmed: approved, changeRequests: requests, revisions: rounds }
+    }
 
-        return {
-            finalPlan: plan,
-            conversationLog: this.conversationLog,
-            allResponses
+    /**
+     * What the group wants changed: "yes, but..." conditions if there are
+     * any, otherwise ask
+     */
+    private async collectAdjustments(requests: ConfirmationAnswer[]): Promise<Map<string, string>> {
+        if (requests.length > 0) {
+            // "Yes, but..." answers already say what to change
+            this.log('Timeline not confirmed, using change requests as adjustments')
+            await this.interactive.sendSummary(
+                `${this.i18n.t('adjustmentsFromRequests')}\n\n${this.formatChangeRequests(requests)}`
+            )
+            return new Map(requests.map(request => [request.participant, request.condition!]))
+        }
+
+        this.log('Timeline not confirmed, asking for adjustments')
+        await this.interactive.sendSummary(this.i18n.t('adjustmentsNeeded'))
+
+        const adjustmentResult = await this.interactive.askQuestion(this.i18n.t('askAdjustments'), {
+            timeout: 300000
+        })
+        return this.interactive.normalizeResponses(adjustmentResult)
+    }
+
+    /**
+     * Work out which parts of the plan the feedback is about, and what each
+     * part's agent should take into account
+     */
+    private async classifyFeedback(feedback: Map<string, string>): Promise<PlanRevision> {
+        const feedbackText = Array.from(feedback.entries())
+            .map(([participant, text]) => `${participant}: ${text}`)
+            .join('\n')
+
+        const prompt = `
+A group was shown an outing plan (date, location, restaurant, transport) and asked for changes.
+
+FEEDBACK:
+${feedbackText}
+
+For each part of the plan the feedback wants changed, list the requirements to pass on,
+rewritten as short instructions ("indoors, it might rain", "vegetarian options").
+Leave out parts nobody asked to change.
+
+Return ONLY JSON like:
+{"date": ["a weekend day"], "location": ["somewhere indoors"], "restaurant": [], "transport": ["no driving"]}
+`
+        try {
+            const response = await this.llm.invoke(prompt)
+            const content = (response.content as string).replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
+            const parsed = JSON.parse(content) as Partial<Record<PlanComponent, string[]>>
+
+            const components = PLAN_COMPONENTS.filter(component => (parsed[component]?.length ?? 0) > 0)
+            return { components, constraints: parsed }
+        } catch (error) {
+            console.error('⚠️  Could not classify feedback, falling back to keywords:', error)
+
+            const texts = Array.from(feedback.values())
+            const constraints: Partial<Record<PlanComponent, string[]>> = {}
+            for (const text of texts) {
+                for (const component of guessComponents(text)) {
+                    constraints[component] = [...(constraints[component] ?? []), text]
+                }
+            }
+            return { components: PLAN_COMPONENTS.filter(component => constraints[component]), constraints }
+        }
+    }
+
+    /**
+     * Let the group pick a different date from the free slots
+     */
+    private async chooseOtherDate(slots: CalendarSlot[], current: CalendarSlot, city: string): Promise<CalendarSlot> {
+        const others = slots
+            .filter(slot => slot.date !== current.date || slot.start !== current.start)
+            .slice(0, 3)
+
+        if (others.length === 0) {
+            await this.interactive.sendSummary(this.i18n.t('noOtherDates'))
+            return current
+        }
+
+        const poll = await this.interactive.askPoll(
+            this.i18n.t('askOtherDate'),
+            others.map(slot => `${slot.date} (${slot.start} - ${slot.end})`),
+            { timeout: 120000 }
+        )
+        const slot = others[poll.leaders[0] ?? 0]
+        this.log(`New date: ${slot.date}`)
+
+        const forecast = await this.weather.getWeatherForecast({
+            city,
+            date: new Date(slot.date)
+        })
+        await this.interactive.sendSummary(this.weather.formatWeatherReport(forecast))
+        this.interactive.updatePlanContext({
+            date: `${slot.date} (${slot.start} - ${slot.end})`,
+            weather: forecast
+        })
+        return slot
+    }
+
+    private componentTopic(component: PlanComponent): (language: Language) => string {
+        const keys: Record<PlanComponent, MessageKey> = {
+            date: 'topicDate',
+            location: 'topicLocation',
+            restaurant: 'topicRestaurant',
+            transport: 'topicTransport'
+        }
+        return language => this.i18n.in(language, keys[component])
+    }
+
+    private updatePlanContext(plan: HolidayPlan): void {
+        this.interactive.updatePlanContext({
+            location: plan.location.bestOption,
+            restaurant: plan.restaurant.bestOption,
+            transportation: plan.transportation.bestOption,
+            cost: `${formatMoney(plan.costBreakdown.totalPerPerson, plan.currency)} per person`
+        })
+    }
+
+    private formatChangeRequests(requests: ConfirmationAnswer[]): string {
+        return requests.map(request => `• ${request.participant}: ${request.condition}`).join('\n')
+    }
+
+    /**
+     * Log side chatter and who didn't answer, and tell the group when going
+     * ahead without someone
+     */
+    private async reviewAnswers(topicKey: MessageKey, result: QuestionResult): Promise<void> {
+        const topic = this.i18n.in('en', topicKey)
+        const localTopic = (language: Language) => this.i18n.in(language, topicKey)
+
+        for (const message of result.offTopic) {
+            this.log(`[${result.questionId}] Not a ${topic} answer from ${message.participant}: "${message.message}"`)
+        }
+
+        if (result.missing.length === 0) return
+
+        this.log(`[${result.questionId}] No ${topic} answer from ${result.missing.join(', ')} (${result.outcome})`)
+
+        if (result.responses.size === 0) {
+            await this.interactive.sendSummary(this.i18n.t('usingDefaults', { topic: localTopic }))
+        } else {
+            await this.interactive.sendSummary(this.i18n.t('goingAheadWithout', {
+                topic: localTopic,
+                names: result.missing.join(', ')
+            }))
         }
     }
 
@@ -387,28 +900,90 @@ Return ONLY the JSON array, no other text.
 
     private formatPlanForGroup(plan: any): string {
         const slot = plan.timeSlot.recommendedSlot
+        const money = (amount: number) => formatMoney(amount, plan.currency)
 
         return `📋 HERE'S YOUR PLAN!\n\n` +
             `📅 When: ${slot?.date} at ${slot?.start}-${slot?.end}\n\n` +
             `📍 Location: ${plan.location.bestOption.name}\n` +
             `   ${plan.location.bestOption.description}\n` +
-            `   Cost: $${plan.location.bestOption.estimatedCostPerPerson}/person\n\n` +
+            `   Cost: ${money(plan.location.bestOption.estimatedCostPerPerson)}/person\n\n` +
             `🍽️  Restaurant: ${plan.restaurant.bestOption.name}\n` +
             `   ${plan.restaurant.bestOption.cuisine} cuisine\n` +
-            `   Cost: $${plan.restaurant.bestOption.estimatedCostPerPerson}/person\n\n` +
+            `   Cost: ${money(plan.restaurant.bestOption.estimatedCostPerPerson)}/person\n\n` +
             `🚗 Transportation: ${plan.transportation.bestOption.method}\n` +
             `   ${plan.transportation.bestOption.duration}\n` +
-            `   Cost: $${plan.transportation.bestOption.estimatedCostPerPerson}/person\n\n` +
-            `💰 TOTAL PER PERSON: $${plan.costBreakdown.totalPerPerson.toFixed(2)}\n` +
-            `💵 Total for group: $${plan.costBreakdown.totalForGroup.toFixed(2)}`
+            `   Cost: ${money(plan.transportation.bestOption.estimatedCostPerPerson)}/person\n\n` +
+            `💰 TOTAL PER PERSON: ${money(plan.costBreakdown.totalPerPerson)}\n` +
+            `💵 Total for group: ${money(plan.costBreakdown.totalForGroup)}`
+    }
+
+    private useCommands(router: CommandRouter, register: boolean): void {
+        this.interactive.useCommands(router, false)
+        if (register) {
+            this.commandDefinitions().forEach(command => router.register(command))
+            this.registeredCommands = true
+        }
+    }
+
+    /**
+     * /status, /cancel, /skip and /pick for this planner
+     */
+    commandDefinitions(): CommandDefinition[] {
+        return [{
+            name: 'status',
+            description: 'Show where planning is up to',
+            maxArgs: 0,
+            handler: async ctx => {
+                const pending = this.interactive.getPendingResponseCount()
+                await ctx.reply(
+                    `📊 ${this.status}` +
+                    (pending !== null ? `\n${this.i18n.t('statusWaiting', { count: pending })}` : '')
+                )
+            }
+        }, {
+            name: 'cancel',
+            description: 'Stop planning',
+            maxArgs: 0,
+            permission: sender => this.participants.includes(sender) || (this.config.commands?.isAdmin(sender) ?? false),
+            handler: async ctx => {
+                this.cancel(ctx.sender)
+                await ctx.reply(this.i18n.t('cancelled'))
+            }
+        }, ...this.interactive.commandDefinitions()]
+    }
+
+    /**
+     * Where planning is up to, as shown by /status
+     */
+    getStatus(): string {
+        return this.status
+    }
+
+    /**
+     * Stop planning: the open question ends and startPlanning() rejects
+     */
+    cancel(by: string = 'host'): void {
+        this.log(`Cancelled by ${by}`)
+        this.status = 'Cancelled'
+        this.interactive.cancel()
     }
 
     private log(message: string): void {
         const timestamp = new Date().toISOString()
         this.conversationLog.push(`[${timestamp}] ${message}`)
+        if (message.startsWith('Step')) {
+            this.status = message
+        }
     }
 
     async close(): Promise<void> {
+        if (this.registeredCommands) {
+            this.commandDefinitions().forEach(command => this.config.commands?.unregister(command.name))
+            this.registeredCommands = false
+        }
+        if (this.config.oauth) {
+            this.config.oauth.closeSession(this.groupChatId)
+        }
         await this.interactive.close()
     }
 }
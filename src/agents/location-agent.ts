@@ -45,6 +45,10 @@ export class LocationAgent {
         budget?: 'low' | 'medium' | 'high'
         date?: string
         duration?: number
+        /** Group feedback the suggestions must respect ("somewhere indoors") */
+        constraints?: string[]
+        /** ISO 4217 code prices should be given in (default: USD) */
+        currency?: string
     }): Promise<LocationRecommendation> {
         const parser = StructuredOutputParser.fromZodSchema(
             z.object({
@@ -54,7 +58,7 @@ export class LocationAgent {
                         type: z.string().describe('Type of location (e.g., park, museum, beach, etc.)'),
                         description: z.string(),
                         address: z.string(),
-                        estimatedCostPerPerson: z.number().describe('Estimated cost per person in USD'),
+                        estimatedCostPerPerson: z.number().describe('Estimated cost per person, in the requested currency'),
                         activities: z.array(z.string()).describe('Available activities'),
                         rating: z.number().optional().describe('Rating out of 5'),
                         distance: z.string().optional()
@@ -72,8 +76,10 @@ City: {city}
 Group Size: {groupSize} people
 Preferences: {preferences}
 Budget Level: {budget}
+Currency: {currency}
 Date: {date}
 Duration: {duration} hours
+Group Feedback (must respect): {constraints}
 
 Requirements:
 - Suggest 3-5 different location options
@@ -90,8 +96,10 @@ Requirements:
             groupSize: params.groupSize.toString(),
             preferences: params.preferences?.join(', ') || 'No specific preferences',
             budget: params.budget || 'medium',
+            currency: params.currency || 'USD',
             date: params.date || 'Weekend',
             duration: (params.duration || 4).toString(),
+            constraints: params.constraints?.join('; ') || 'None',
             format_instructions: parser.getFormatInstructions()
         })
 
@@ -0,0 +1,238 @@
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai'
+import { StructuredOutputParser } from '@langchain/core/output_parsers'
+import { z } from 'zod'
+import { PromptTemplate } from '@langchain/core/prompts'
+
+const DAY = 24 * 60 * 60 * 1000
+
+export interface RoomConfiguration {
+    /** e.g. "Queen room", "2-bedroom apartment" */
+    type: string
+    count: number
+    /** People per room */
+    sleeps: number
+}
+
+export interface LodgingOption {
+    name: string
+    type: string
+    address: string
+    description: string
+    rooms: RoomConfiguration[]
+    nights: number
+    /** All rooms, one night, in the searched currency */
+    costPerNight: number
+    /** The whole stay, per person, in the searched currency */
+    estimatedCostPerPerson: number
+    /** From the planned location */
+    distance: string
+    cancellationPolicy: string
+    amenities: string[]
+    rating?: number
+}
+
+export interface LodgingRecommendation {
+    options: LodgingOption[]
+    bestOption: LodgingOption
+    totalEstimatedCost: number
+    reasoning: string
+    /** Where the options came from: a provider's name, or "llm" */
+    source: string
+}
+
+export interface LodgingSearch {
+    city: string
+    /** The planned location the group wants to stay close to */
+    near: string
+    /** YYYY-MM-DD */
+    checkIn: string
+    /** YYYY-MM-DD */
+    checkOut: string
+    groupSize: number
+    budget?: 'low' | 'medium' | 'high'
+    preferences?: string[]
+    /** Group feedback the suggestions must respect ("no shared bathrooms") */
+    constraints?: string[]
+    /** ISO 4217 code prices should be given in (default: USD) */
+    currency?: string
+}
+
+/**
+ * Where lodging listings come from (a booking API, a local fixture, ...)
+ * Options should already have rooms for the whole group.
+ */
+export interface LodgingProvider {
+    name: string
+    search(params: LodgingSearch): Promise<LodgingOption[]>
+}
+
+/**
+ * Nights between check-in and check-out, at least one
+ */
+export function countNights(checkIn: string, checkOut: string): number {
+    return Math.max(1, Math.round((new Date(checkOut).getTime() - new Date(checkIn).getTime()) / DAY))
+}
+
+/**
+ * Lodging Agent - Finds places to stay for overnight trips with room and price details
+ * Uses the lodging provider when one is given, and the LLM when it has nothing.
+ */
+export class LodgingAgent {
+    private llm: ChatGoogleGenerativeAI
+
+    constructor(private apiKey: string, private provider?: LodgingProvider) {
+        this.llm = new ChatGoogleGenerativeAI({
+            model: 'gemini-2.5-flash',
+            temperature: 0.7,
+            apiKey: apiKey
+        })
+    }
+
+    /**
+     * Find places for the group to stay near the planned location
+     */
+    async findLodging(params: LodgingSearch): Promise<LodgingRecommendation> {
+        if (this.provider) {
+            try {
+                const options = (await this.provider.search(params))
+                    .filter(option => this.sleeps(option) >= params.groupSize)
+
+                if (options.length > 0) {
+                    const bestOption = options.reduce((best, option) =>
+                        option.estimatedCostPerPerson < best.estimatedCostPerPerson ? option : best
+                    )
+                    return {
+                        options,
+                        bestOption,
+                        totalEstimatedCost: bestOption.estimatedCostPerPerson * params.groupSize,
+                        reasoning: `Lowest cost per person of ${options.length} options from ${this.provider.name}`,
+                        source: this.provider.name
+                    }
+                }
+                console.log(`⚠️  ${this.provider.name} had no lodging for ${params.groupSize} people, using AI estimates`)
+            } catch (error) {
+                console.log(`⚠️  ${this.provider.name} lodging search failed, using AI estimates:`, error)
+            }
+        }
+
+        return this.findWithLLM(params)
+    }
+
+    private sleeps(option: LodgingOption): number {
+        return option.rooms.reduce((total, room) => total + room.count * room.sleeps, 0)
+    }
+
+    private async findWithLLM(params: LodgingSearch): Promise<LodgingRecommendation> {
+        const nights = countNights(params.checkIn, params.checkOut)
+
+        const parser = StructuredOutputParser.fromZodSchema(
+            z.object({
+                options: z.array(
+                    z.object({
+                        name: z.string(),
+                        type: z.string().describe('hotel, vacation rental, hostel, cabin, etc.'),
+                        address: z.string(),
+                        description: z.string(),
+                        rooms: z.array(
+                            z.object({
+                                type: z.string(),
+                                count: z.number(),
+                                sleeps: z.number().describe('People per room')
+                            })
+                        ).describe('Rooms to book so everyone has a bed'),
+                        costPerNight: z.number().describe('All rooms for one night in the requested currency, including taxes and fees'),
+                        distance: z.string().describe('Distance from the planned location'),
+                        cancellationPolicy: z.string(),
+                        amenities: z.array(z.string()),
+                        rating: z.number().optional()
+                    })
+                ),
+                bestOptionIndex: z.number(),
+                reasoning: z.string()
+            })
+        )
+
+        const prompt = PromptTemplate.fromTemplate(`
+You are a lodging expert. Find the best places for a group to stay on an overnight trip.
+
+Near: {near} in {city}
+Check-in: {checkIn}
+Check-out: {checkOut} ({nights} nights)
+Group Size: {groupSize} people
+Budget: {budget}
+Currency: {currency}
+Preferences: {preferences}
+Group Feedback (must respect): {constraints}
+
+Requirements:
+- Suggest 3-5 options (hotels, vacation rentals, etc.)
+- Give each option the rooms to book so all {groupSize} people have a bed
+- Provide realistic prices per night for all rooms, including taxes and fees
+- Give the distance from {near}
+- Include the cancellation policy
+
+{format_instructions}
+`)
+
+        const input = await prompt.format({
+            near: params.near,
+            city: params.city,
+            checkIn: params.checkIn,
+            checkOut: params.checkOut,
+            nights: nights.toString(),
+            groupSize: params.groupSize.toString(),
+            budget: params.budget || 'medium',
+            currency: params.currency || 'USD',
+            preferences: params.preferences?.join(', ') || 'None',
+            constraints: params.constraints?.join('; ') || 'None',
+            format_instructions: parser.getFormatInstructions()
+        })
+
+        const response = await this.llm.invoke(input)
+
+        // Clean up the response - remove markdown code blocks and fix common JSON errors
+        let content = response.content as string
+        content = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
+
+        let parsed
+        try {
+            parsed = await parser.parse(content)
+        } catch (error) {
+            console.log('⚠️  JSON parse error, attempting to fix...')
+            const lastBrace = content.lastIndexOf('}')
+            if (lastBrace > 0) {
+                content = content.substring(0, lastBrace + 1)
+            }
+            try {
+                parsed = JSON.parse(content)
+            } catch (retryError) {
+                console.error('❌ Could not parse lodging response:', content.substring(0, 500))
+                throw new Error('Failed to parse lodging recommendations. Please try again.')
+            }
+        }
+
+        const options: LodgingOption[] = parsed.options.map((option: Omit<LodgingOption, 'nights' | 'estimatedCostPerPerson'>) => ({
+            ...option,
+            nights,
+            estimatedCostPerPerson: option.costPerNight * nights / params.groupSize
+        }))
+        const bestOption = options[parsed.bestOptionIndex] || options[0]
+
+        return {
+            options,
+            bestOption,
+            totalEstimatedCost: bestOption.estimatedCostPerPerson * params.groupSize,
+            reasoning: parsed.reasoning,
+            source: 'llm'
+        }
+    }
+
+    /**
+     * Describe the rooms to book, e.g. "2 × Queen room (sleeps 2)"
+     */
+    formatRooms(option: LodgingOption): string {
+        return option.rooms
+            .map(room => `${room.count} × ${room.type} (sleeps ${room.sleeps})`)
+            .join(', ')
+    }
+}
@@ -0,0 +1,72 @@
+import { Translator, formatMoney, type MessageKey } from '../i18n.js'
+import type { HolidayPlan, PlanComponent } from './holiday-planner.js'
+
+/**
+ * One visible difference between two versions of a plan
+ */
+export interface PlanChange {
+    field: PlanComponent | 'cost'
+    before: string
+    after: string
+}
+
+const KEYWORDS: Record<PlanComponent, RegExp> = {
+    date: /(?<![\p{L}])(date|day|time|weekend|weekday|earlier|later|morning|afternoon|evening|monday|tuesday|wednesday|thursday|friday|saturday|sunday|fecha|día|dia|hora|finde|temprano|tarde|lunes|martes|miércoles|jueves|viernes|sábado|sabado|domingo)(?![\p{L}])/iu,
+    location: /(?<![\p{L}])(place|location|somewhere|park|museum|beach|hike|hiking|indoors?|outdoors?|activity|activities|sitio|lugar|parque|museo|playa|actividad|actividades)(?![\p{L}])/iu,
+    restaurant: /(?<![\p{L}])(restaurant|food|eat|lunch|dinner|cuisine|vegetarian|vegan|seafood|restaurante|comida|comer|almuerzo|cena|vegetariano|vegano|marisco)(?![\p{L}])/iu,
+    transport: /(?<![\p{L}])(transport|transportation|drive|driving|car|uber|lyft|bus|train|transit|taxi|walk|walking|parking|ride|transporte|coche|conducir|autobús|autobus|tren|metro|aparcar)(?![\p{L}])/iu
+}
+
+const LABELS: Record<PlanChange['field'], { emoji: string; key: MessageKey }> = {
+    date: { emoji: '📅', key: 'topicDate' },
+    location: { emoji: '📍', key: 'topicLocation' },
+    restaurant: { emoji: '🍽️', key: 'topicRestaurant' },
+    transport: { emoji: '🚗', key: 'topicTransport' },
+    cost: { emoji: '💰', key: 'topicCost' }
+}
+
+/**
+ * Guess which parts of a plan a piece of feedback is about, by keyword
+ * Fallback for when the LLM can't classify it.
+ */
+export function guessComponents(text: string): PlanComponent[] {
+    return (Object.keys(KEYWORDS) as PlanComponent[]).filter(component => KEYWORDS[component].test(text))
+}
+
+/**
+ * What changed between two versions of a plan
+ */
+export function diffPlans(before: HolidayPlan, after: HolidayPlan): PlanChange[] {
+    const slot = (plan: HolidayPlan) => {
+        const recommended = plan.timeSlot.recommendedSlot
+        return recommended ? `${recommended.date} (${recommended.start} - ${recommended.end})` : '-'
+    }
+
+    const pairs: [PlanChange['field'], string, string][] = [
+        ['date', slot(before), slot(after)],
+        ['location', before.location.bestOption.name, after.location.bestOption.name],
+        ['restaurant', before.restaurant.bestOption.name, after.restaurant.bestOption.name],
+        ['transport', before.transportation.bestOption.method, after.transportation.bestOption.method],
+        [
+            'cost',
+            formatMoney(before.costBreakdown.totalPerPerson, before.currency),
+            formatMoney(after.costBreakdown.totalPerPerson, after.currency)
+        ]
+    ]
+
+    return pairs
+        .filter(([, was, now]) => was !== now)
+        .map(([field, was, now]) => ({ field, before: was, after: now }))
+}
+
+/**
+ * Plan changes as a message, one line per change, in the group's language
+ */
+export function formatPlanDiff(changes: PlanChange[], i18n: Translator = new Translator()): string {
+    return changes
+        .map(change => {
+            const label = LABELS[change.field]
+            return `${label.emoji} ${i18n.in(i18n.language, label.key)}: ${change.before} → ${change.after}`
+        })
+        .join('\n')
+}
@@ -0,0 +1,228 @@
+import {
+    InteractiveHolidayPlanner,
+    type InteractivePlannerConfig,
+    type InteractivePlanningResult,
+    type PlanningInput
+} from './interactive-holiday-planner.js'
+import { CalendarOAuthManager } from './calendar-oauth.js'
+import type { SessionStore } from './session-store.js'
+import type { MessagingTransport } from '../transport.js'
+import type { CommandDefinition, CommandRouter } from '../command-router.js'
+import { GroupsConfig } from '../groups-config.js'
+import { Translator } from '../i18n.js'
+
+/**
+ * Planner settings a session manager applies to every group
+ */
+export type SharedPlannerConfig = Omit<
+    InteractivePlannerConfig,
+    'apiKey' | 'groupChatId' | 'transport' | 'groups' | 'commands' | 'sessions' | 'oauth'
+>
+
+export interface PlanningSessionManagerConfig {
+    apiKey: string
+    transport: MessagingTransport
+    /** Defaults to GroupsConfig.load() */
+    groups?: GroupsConfig
+    /** Connect calendars through one OAuth server shared by every group */
+    googleClientId?: string
+    googleClientSecret?: string
+    oauthRedirectUri?: string
+    /** Port for the shared OAuth server (default: 3000) */
+    oauthPort?: number
+    /** Checkpoint every group's sessions so they can be resumed */
+    sessions?: SessionStore
+    /**
+     * Router for the chat commands (/status, /cancel, ...): one router shared by
+     * every group, or a function returning a router scoped to each group's chat
+     */
+    commands?: CommandRouter | ((groupChatId: string) => CommandRouter | undefined)
+    /** Settings for every group's planner; overrides can be passed per session */
+    planner?: Partial<SharedPlannerConfig>
+}
+
+export interface ActiveSession {
+    groupChatId: string
+    planner: InteractiveHolidayPlanner
+    startedAt: Date
+}
+
+/**
+ * Planning Session Manager - Plans with several group chats at once
+ *
+ * Each group gets its own planner, so answers, state and checkpoints never
+ * mix. Planners share the transport's message bus (one inbound watcher,
+ * questions routed by chat) and a single OAuth server.
+ *
+ * Usage:
+ *   const manager = new PlanningSessionManager({ apiKey, transport: client })
+ *   await Promise.all([
+ *       manager.start('family', { startDate, endDate }),
+ *       manager.start('climbing', { city: 'Denver', startDate, endDate })
+ *   ])
+ */
+export class PlanningSessionManager {
+    private config: PlanningSessionManagerConfig
+    private groups: GroupsConfig
+    private running: Map<string, ActiveSession> = new Map()
+    private oauth?: CalendarOAuthManager
+    private sharedCommands: string[] = []
+
+    constructor(config: PlanningSessionManagerConfig) {
+        this.config = config
+        this.groups = config.groups ?? GroupsConfig.load()
+
+        if (config.googleClientId && config.googleClientSecret) {
+            this.oauth = new CalendarOAuthManager(
+                config.googleClientId,
+                config.googleClientSecret,
+                config.oauthRedirectUri || `http://localhost:${config.oauthPort ?? 3000}/oauth/callback`
+            )
+        }
+    }
+
+    /**
+     * Plan with a group; resolves when that group's planning finishes
+     * Throws if the group is already planning.
+     *
+     * @param groupChatId - Chat ID or alias from the groups config
+     */
+    async start(
+        groupChatId: string,
+        input: PlanningInput,
+        overrides: Partial<SharedPlannerConfig> = {}
+    ): Promise<InteractivePlanningResult> {
+        return this.launch(groupChatId, overrides, planner => planner.startPlanning(input))
+    }
+
+    /**
+     * Continue a group's checkpointed session from its last completed step
+     */
+    async resume(
+        groupChatId: string,
+        sessionId: string,
+        overrides: Partial<SharedPlannerConfig> = {}
+    ): Promise<InteractivePlanningResult> {
+        if (!this.config.sessions) {
+            throw new Error('Resuming a session needs a session store (config.sessions)')
+        }
+        return this.launch(groupChatId, overrides, planner => planner.resume(sessionId))
+    }
+
+    isRunning(groupChatId: string): boolean {
+        return this.running.has(this.groups.resolve(groupChatId))
+    }
+
+    /**
+     * Groups planning right now
+     */
+    list(): ActiveSession[] {
+        return Array.from(this.running.values())
+    }
+
+    /**
+     * Stop a group's planning
+     *
+     * @returns false if the group wasn't planning
+     */
+    cancel(groupChatId: string, by?: string): boolean {
+        const session = this.running.get(this.groups.resolve(groupChatId))
+        session?.planner.cancel(by)
+        return session !== undefined
+    }
+
+    /**
+     * Cancel every session, remove shared commands and stop the OAuth server; the transport stays open
+     */
+    async close(): Promise<void> {
+        for (const session of this.running.values()) {
+            session.planner.cancel()
+        }
+        if (this.config.commands && typeof this.config.commands !== 'function') {
+            const router = this.config.commands
+            this.sharedCommands.forEach(name => router.unregister(name))
+        }
+        this.sharedCommands = []
+        await this.oauth?.stopServer()
+    }
+
+    private async launch(
+        groupChatId: string,
+        overrides: Partial<SharedPlannerConfig>,
+        run: (planner: InteractiveHolidayPlanner) => Promise<InteractivePlanningResult>
+    ): Promise<InteractivePlanningResult> {
+        const chatId = this.groups.resolve(groupChatId)
+        if (this.running.has(chatId)) {
+            throw new Error(`Group ${chatId} is already planning`)
+        }
+
+        // A shared router can hold each command once, so the manager registers them and dispatches by chat
+        const commands = this.config.commands
+        const shared = commands !== undefined && typeof commands !== 'function'
+        const planner = new InteractiveHolidayPlanner({
+            ...this.config.planner,
+            ...overrides,
+            apiKey: this.config.apiKey,
+            groupChatId: chatId,
+            transport: this.config.transport,
+            groups: this.groups,
+            commands: typeof commands === 'function' ? commands(chatId) : commands,
+            registerCommands: !shared,
+            sessions: this.config.sessions,
+            oauth: this.oauth
+        })
+        if (shared) {
+            this.registerSharedCommands(commands, planner)
+        }
+        this.running.set(chatId, { groupChatId: chatId, planner, startedAt: new Date() })
+        console.log(`🗂️  Planning with ${chatId} (${this.running.size} active)`)
+
+        try {
+            if (this.oauth) {
+                await this.oauth.startServer(this.config.oauthPort)
+                await planner.connectCalendars()
+            }
+            return await run(planner)
+        } finally {
+            this.running.delete(chatId)
+            await planner.close()
+            console.log(`🗂️  Finished with ${chatId} (${this.running.size} active)`)
+        }
+    }
+
+    /**
+     * Register the planners' commands on a shared router once, each running
+     * the command of the planner for the chat it was sent in
+     */
+    private registerSharedCommands(router: CommandRouter, planner: InteractiveHolidayPlanner): void {
+        if (this.sharedCommands.length > 0) {
+            return
+        }
+
+        const plannerCommand = (chatId: string, name: string): CommandDefinition | undefined =>
+            this.running.get(chatId)?.planner.commandDefinitions().find(command => command.name === name)
+
+        for (const { handler, permission, ...command } of planner.commandDefinitions()) {
+            router.register({
+                ...command,
+                // Per-planner checks (e.g. the group's participants) run against that chat's planner
+                permission: typeof permission === 'function'
+                    ? (sender, chatId) => {
+                        const check = plannerCommand(chatId, command.name)?.permission
+                        return typeof check === 'function' ? check(sender, chatId) : true
+                    }
+                    : permission,
+                handler: async ctx => {
+                    const target = plannerCommand(ctx.chatId, command.name)
+                    if (!target) {
+                        const i18n = new Translator({ group: this.groups.get(ctx.chatId)?.language })
+                        await ctx.reply(i18n.t('notPlanning'))
+                        return
+                    }
+                    await target.handler(ctx)
+                }
+            })
+            this.sharedCommands.push(command.name)
+        }
+    }
+}
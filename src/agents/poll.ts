@@ -0,0 +1,221 @@
+import { Translator } from '../i18n.js'
+import type { AskOptions, QuestionResult } from './interactive-agent.js'
+
+export type PollMethod = 'plurality' | 'approval' | 'ranked'
+
+/**
+ * One participant's vote, as option indexes (0-based)
+ */
+export interface Ballot {
+    /** Options in the order given: a single pick, every approved option, or a ranking */
+    choices: number[]
+    /** Options explicitly ruled out ("not 1") */
+    excluded: number[]
+}
+
+export interface PollOptions extends AskOptions {
+    /** plurality: one pick each; approval: any number each; ranked: instant runoff (default: plurality) */
+    method?: PollMethod
+    /** Send the results to the group (default: true) */
+    announce?: boolean
+}
+
+export interface PollRound {
+    /** Votes per option this round */
+    counts: number[]
+    /** Options dropped after this round (ranked-choice only) */
+    eliminated: number[]
+}
+
+export interface PollTally {
+    method: PollMethod
+    options: string[]
+    /** Parsed ballot per participant; unreadable replies are left out */
+    ballots: Map<string, Ballot>
+    /** Counting rounds; one for plurality and approval */
+    rounds: PollRound[]
+    /** Winning option index, or null when nobody voted or it's a tie */
+    winner: number | null
+    /** Options sharing first place; more than one means a tie */
+    leaders: number[]
+    isTie: boolean
+}
+
+export interface PollResult extends PollTally {
+    /** Who answered, who didn't, and the raw replies */
+    question: QuestionResult
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+    one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+    first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+    uno: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10,
+    primera: 1, primero: 1, segunda: 2, segundo: 2, tercera: 3, tercero: 3, cuarta: 4, cuarto: 4, quinta: 5, quinto: 5
+}
+
+const NEGATION = /(?<![\p{L}])(not|no|never|except|but not|don'?t|can'?t|cannot|won'?t|nunca|excepto|menos|sin)(?![\p{L}])/iu
+const EVERYTHING = /(?<![\p{L}])(any|all|either|anything|whatever|all of them|any of them|cualquiera|todas|todos|me da igual)(?![\p{L}])/iu
+
+/**
+ * Read a free-form reply like "2 or 3, not 1" or "Beach > Museum"
+ *
+ * Options are recognised by number (digits, "two", "second") or by name.
+ * A clause containing "not"/"except" rules options out.
+ */
+export function parseBallot(text: string, options: string[]): Ballot {
+    const choices: number[] = []
+    const excluded: number[] = []
+    let everything = false
+
+    // Clauses: "2 or 3, not 1" -> ["2 or 3", "not 1"]
+    const clauses = text.split(/[,;\n]|\bbut\b|\bthen\b|\bpero\b|\bluego\b|>/i)
+
+    for (const clause of clauses) {
+        const negated = NEGATION.test(clause)
+        const mentioned = findOptions(clause, options)
+
+        if (negated) {
+            excluded.push(...mentioned.filter(i => !excluded.includes(i)))
+        } else {
+            choices.push(...mentioned.filter(i => !choices.includes(i)))
+            if (mentioned.length === 0 && EVERYTHING.test(clause)) everything = true
+        }
+    }
+
+    if (everything) {
+        choices.push(...options.map((_, i) => i).filter(i => !choices.includes(i)))
+    }
+
+    return {
+        choices: choices.filter(i => !excluded.includes(i)),
+        excluded
+    }
+}
+
+/**
+ * Option indexes mentioned in a piece of text, in the order they appear
+ */
+function findOptions(text: string, options: string[]): number[] {
+    const found: Array<{ index: number; at: number }> = []
+    const lower = text.toLowerCase()
+
+    for (const match of lower.matchAll(/\d+|\p{L}+/gu)) {
+        const value = /^\d+$/.test(match[0]) ? parseInt(match[0]) : NUMBER_WORDS[match[0]]
+        if (value !== undefined && value >= 1 && value <= options.length) {
+            found.push({ index: value - 1, at: match.index! })
+        }
+    }
+
+    options.forEach((option, index) => {
+        const name = option.toLowerCase().trim()
+        const at = name.length >= 3 ? lower.indexOf(name) : -1
+        if (at >= 0) found.push({ index, at })
+    })
+
+    return found
+        .sort((a, b) => a.at - b.at)
+        .map(f => f.index)
+        .filter((index, i, all) => all.indexOf(index) === i)
+}
+
+/**
+ * Count ballots with the given method
+ */
+export function tallyPoll(method: PollMethod, options: string[], ballots: Map<string, Ballot>): PollTally {
+    const rounds = method === 'ranked'
+        ? instantRunoff(options.length, Array.from(ballots.values()))
+        : [{ counts: countVotes(options.length, ballots, method), eliminated: [] }]
+
+    const final = rounds[rounds.length - 1].counts
+    const best = Math.max(0, ...final)
+    const leaders = best > 0
+        ? final.map((count, i) => ({ count, i })).filter(c => c.count === best).map(c => c.i)
+        : []
+
+    return {
+        method,
+        options,
+        ballots,
+        rounds,
+        winner: leaders.length === 1 ? leaders[0] : null,
+        leaders,
+        isTie: leaders.length > 1
+    }
+}
+
+function countVotes(optionCount: number, ballots: Map<string, Ballot>, method: PollMethod): number[] {
+    const counts = new Array(optionCount).fill(0)
+    for (const ballot of ballots.values()) {
+        const counted = method === 'approval' ? ballot.choices : ballot.choices.slice(0, 1)
+        for (const index of counted) counts[index]++
+    }
+    return counts
+}
+
+/**
+ * Ranked-choice: drop the last-placed option until one has a majority
+ * of the ballots still in play
+ */
+function instantRunoff(optionCount: number, ballots: Ballot[]): PollRound[] {
+    const rounds: PollRound[] = []
+    const active = new Set(Array.from({ length: optionCount }, (_, i) => i))
+
+    while (active.size > 0) {
+        const counts = new Array(optionCount).fill(0)
+        let live = 0
+        for (const ballot of ballots) {
+            const top = ballot.choices.find(i => active.has(i))
+            if (top !== undefined) {
+                counts[top]++
+                live++
+            }
+        }
+
+        const activeCounts = Array.from(active).map(i => counts[i])
+        const lowest = Math.min(...activeCounts)
+        const highest = Math.max(...activeCounts)
+
+        // Majority, nobody left to vote for, or everyone tied: done
+        if (highest * 2 > live || live === 0 || lowest === highest) {
+            rounds.push({ counts, eliminated: [] })
+            break
+        }
+
+        const eliminated = Array.from(active).filter(i => counts[i] === lowest)
+        eliminated.forEach(i => active.delete(i))
+        rounds.push({ counts, eliminated })
+    }
+
+    return rounds
+}
+
+/**
+ * Results message for the group
+ * Counts are in the group's language; the outcome is in every language in use.
+ */
+export function formatPollTally(question: string, tally: PollTally, i18n: Translator = new Translator()): string {
+    const final = tally.rounds[tally.rounds.length - 1].counts
+    const [one, many] = tally.method === 'approval'
+        ? ['pollApproval', 'pollApprovals'] as const
+        : ['pollVote', 'pollVotes'] as const
+
+    const lines = tally.options.map((option, i) =>
+        `${i + 1}. ${option} - ${final[i]} ${i18n.in(i18n.language, final[i] === 1 ? one : many)}`
+    )
+
+    let outcome: string
+    if (tally.winner !== null) {
+        outcome = i18n.t('pollWinner', { option: tally.options[tally.winner] })
+    } else if (tally.isTie) {
+        const leaders = tally.leaders.map(i => tally.options[i])
+        outcome = i18n.t('pollTie', { options: language => i18n.list(language, leaders, 'and') })
+    } else {
+        outcome = i18n.t('pollNoVotes')
+    }
+
+    const rounds = tally.method === 'ranked' && tally.rounds.length > 1
+        ? ` ${i18n.in(i18n.language, 'pollRounds', { count: tally.rounds.length })}`
+        : ''
+
+    return `${i18n.in(i18n.language, 'pollResults', { question })}\n\n${lines.join('\n')}\n\n${outcome}${rounds}`
+}
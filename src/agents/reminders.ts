@@ -0,0 +1,99 @@
+import { Translator, translate, type Language } from '../i18n.js'
+
+export interface QuietHours {
+    /** Hour (0-23) quiet time starts */
+    start: number
+    /** Hour (0-23) quiet time ends; may be earlier than start to span midnight */
+    end: number
+    /** IANA time zone for the hours (default: this machine's) */
+    timeZone?: string
+}
+
+export interface ReminderConfig {
+    /** When to nudge, as fractions of the question's timeout (default: [0.5, 0.8]) */
+    at?: number[]
+    /** 'group': one message with @mentions; 'direct': a private message to each handle */
+    mode?: 'group' | 'direct'
+    /** Most reminders one participant gets over the whole conversation (default: 3) */
+    maxPerParticipant?: number
+    /** Hours when no reminders are sent */
+    quietHours?: QuietHours
+}
+
+/**
+ * Reminders - Decides who gets nudged about an unanswered question, and when
+ *
+ * Counts are kept per participant for as long as the instance lives, so
+ * the cap holds across questions.
+ */
+export class Reminders {
+    private at: number[]
+    readonly mode: 'group' | 'direct'
+    private maxPerParticipant: number
+    private quietHours?: QuietHours
+    private sent: Map<string, number> = new Map()
+
+    constructor(config: ReminderConfig = {}) {
+        this.at = [...(config.at ?? [0.5, 0.8])]
+            .filter(f => f > 0 && f < 1)
+            .sort((a, b) => a - b)
+        this.mode = config.mode ?? 'group'
+        this.maxPerParticipant = config.maxPerParticipant ?? 3
+        this.quietHours = config.quietHours
+    }
+
+    /**
+     * Milliseconds after asking at which reminders are due
+     */
+    scheduleFor(timeout: number): number[] {
+        return this.at.map(fraction => Math.round(fraction * timeout))
+    }
+
+    /**
+     * Pick who to remind now and count it against their cap
+     * Returns nobody during quiet hours.
+     */
+    take(missing: string[], now: Date = new Date()): string[] {
+        if (this.isQuiet(now)) return []
+
+        const handles = missing.filter(handle => (this.sent.get(handle) ?? 0) < this.maxPerParticipant)
+        for (const handle of handles) {
+            this.sent.set(handle, (this.sent.get(handle) ?? 0) + 1)
+        }
+        return handles
+    }
+
+    /**
+     * Reminder text for the group, mentioning everyone who hasn't answered
+     */
+    formatGroupReminder(question: string, handles: string[], i18n: Translator = new Translator()): string {
+        const mentions = handles.map(handle => `@${handle}`).join(' ')
+        return i18n.t('reminderGroup', { mentions, question: this.firstLine(question) })
+    }
+
+    /**
+     * Reminder text sent privately to one participant
+     */
+    formatDirectReminder(question: string, language: Language = 'en'): string {
+        return translate(language, 'reminderDirect', { question: this.firstLine(question) })
+    }
+
+    isQuiet(now: Date = new Date()): boolean {
+        if (!this.quietHours) return false
+
+        const { start, end, timeZone } = this.quietHours
+        const hour = parseInt(new Intl.DateTimeFormat('en-US', {
+            hour: 'numeric',
+            hourCycle: 'h23',
+            timeZone
+        }).format(now))
+
+        return start <= end
+            ? hour >= start && hour < end
+            : hour >= start || hour < end
+    }
+
+    private firstLine(question: string): string {
+        return question.trim().split('\n')[0]
+    }
+}
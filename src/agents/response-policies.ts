@@ -0,0 +1,65 @@
+/**
+ * Where a question is up to, passed to a ResponsePolicy after each check
+ */
+export interface ResponseProgress {
+    /** Everyone who has answered, in order */
+    responded: string[]
+    /** The named participants expected to answer (may be empty) */
+    participants: string[]
+    /** Milliseconds since the question was asked */
+    elapsed: number
+}
+
+/**
+ * Decides when a question has enough answers
+ * Returns true to stop waiting; the question's timeout always applies too.
+ */
+export type ResponsePolicy = (progress: ResponseProgress) => boolean
+
+const answeredParticipants = (progress: ResponseProgress): number =>
+    progress.participants.filter(p => progress.responded.includes(p)).length
+
+/**
+ * Built-in completion policies
+ *
+ * Usage:
+ *   await agent.askQuestion('Budget?', { policy: ResponsePolicies.quorum(0.75) })
+ */
+export const ResponsePolicies = {
+    /**
+     * Stop after the first `n` answers from anyone in the group
+     */
+    firstN(n: number): ResponsePolicy {
+        return progress => progress.responded.length >= n
+    },
+
+    /**
+     * Stop once a fraction (0-1) of the named participants has answered
+     * With no named participants, one answer is enough.
+     */
+    quorum(fraction: number): ResponsePolicy {
+        return progress => {
+            if (progress.participants.length === 0) return progress.responded.length >= 1
+            const needed = Math.max(1, Math.ceil(progress.participants.length * fraction))
+            return answeredParticipants(progress) >= needed
+        }
+    },
+
+    /**
+     * Stop once every named participant has answered
+     * With no named participants, one answer is enough.
+     */
+    allParticipants(): ResponsePolicy {
+        return ResponsePolicies.quorum(1)
+    },
+
+    /**
+     * Stop at a deadline, or earlier once `early` is satisfied
+     * (default: everyone has answered)
+     *
+     * @param ms - Deadline in milliseconds after the question was asked
+     */
+    deadline(ms: number, early: ResponsePolicy = ResponsePolicies.allParticipants()): ResponsePolicy {
+        return progress => progress.elapsed >= ms || early(progress)
+    }
+}
@@ -47,6 +47,10 @@ export class RestaurantAgent {
         budget?: 'low' | 'medium' | 'high'
         mealType?: 'breakfast' | 'lunch' | 'dinner'
         dietaryRestrictions?: string[]
+        /** Group feedback the suggestions must respect ("no seafood") */
+        constraints?: string[]
+        /** ISO 4217 code prices should be given in (default: USD) */
+        currency?: string
     }): Promise<RestaurantRecommendation> {
         const parser = StructuredOutputParser.fromZodSchema(
             z.object({
@@ -55,7 +59,7 @@ export class RestaurantAgent {
                         name: z.string(),
                         cuisine: z.string(),
                         priceRange: z.string().describe('$ to $$$$'),
-                        estimatedCostPerPerson: z.number().describe('Average cost per person in USD'),
+                        estimatedCostPerPerson: z.number().describe('Average cost per person, in the requested currency'),
                         address: z.string(),
                         description: z.string(),
                         features: z.array(z.string()).describe('Special features like outdoor seating, reservations, etc.'),
@@ -75,8 +79,10 @@ Location: Near {location} in {city}
 Group Size: {groupSize} people
 Cuisine Preferences: {cuisine}
 Budget: {budget}
+Currency: {currency}
 Meal Type: {mealType}
 Dietary Restrictions: {dietary}
+Group Feedback (must respect): {constraints}
 
 Requirements:
 - Suggest 3-5 restaurant options near the location
@@ -95,8 +101,10 @@ Requirements:
             groupSize: params.groupSize.toString(),
             cuisine: params.cuisine?.join(', ') || 'Any cuisine',
             budget: params.budget || 'medium',
+            currency: params.currency || 'USD',
             mealType: params.mealType || 'lunch',
             dietary: params.dietaryRestrictions?.join(', ') || 'None',
+            constraints: params.constraints?.join('; ') || 'None',
             format_instructions: parser.getFormatInstructions()
         })
 
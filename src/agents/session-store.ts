@@ -0,0 +1,229 @@
+import Database from 'better-sqlite3'
+import { randomUUID } from 'crypto'
+import { mkdirSync } from 'fs'
+import { dirname } from 'path'
+import type { ConversationState, PlanningStep } from './interactive-agent.js'
+
+export interface SessionStoreConfig {
+    /** SQLite file holding sessions (default: data/sessions.db) */
+    databasePath?: string
+}
+
+export type SessionStatus = 'active' | 'complete' | 'failed' | 'cancelled'
+
+export interface PlanningSession<P = unknown> {
+    id: string
+    groupChatId: string
+    /** What the session was started with, so it can be resumed */
+    params: P
+    status: SessionStatus
+    /** Last completed step and everything the group has answered so far */
+    state: ConversationState
+    log: string[]
+    error: string | null
+    createdAt: Date
+    updatedAt: Date
+}
+
+export interface SessionCheckpoint<T = unknown> {
+    step: PlanningStep
+    output: T
+    completedAt: Date
+}
+
+interface SessionRow {
+    id: string
+    group_chat_id: string
+    params: string
+    status: SessionStatus
+    state: string
+    log: string
+    error: string | null
+    created_at: number
+    updated_at: number
+}
+
+interface CheckpointRow {
+    step: PlanningStep
+    output: string
+    completed_at: number
+}
+
+// JSON can't hold Maps or Dates; tag them so they come back as they went in
+function replacer(this: any, key: string, value: unknown): unknown {
+    const original = this[key]
+    if (original instanceof Map) return { __type: 'Map', entries: Array.from(original.entries()) }
+    if (original instanceof Date) return { __type: 'Date', value: original.toISOString() }
+    return value
+}
+
+function reviver(_key: string, value: any): unknown {
+    if (value && value.__type === 'Map') return new Map(value.entries)
+    if (value && value.__type === 'Date') return new Date(value.value)
+    return value
+}
+
+const serialize = (value: unknown): string => JSON.stringify(value, replacer) ?? 'null'
+const deserialize = <T>(text: string): T => JSON.parse(text, reviver) as T
+
+/**
+ * Session Store - Checkpoints planning sessions so they survive a crash
+ *
+ * Each completed step's output is saved; resuming a session skips the steps
+ * that already have a checkpoint, so the group isn't asked again.
+ *
+ * Usage:
+ *   const sessions = new SessionStore()
+ *   const planner = new InteractiveHolidayPlanner({ ..., sessions })
+ *   await planner.resume('3f2a9c1e')
+ */
+export class SessionStore {
+    private db: Database.Database
+
+    constructor(config: SessionStoreConfig = {}) {
+        const databasePath = config.databasePath ?? 'data/sessions.db'
+        if (databasePath !== ':memory:') {
+            mkdirSync(dirname(databasePath), { recursive: true })
+        }
+
+        this.db = new Database(databasePath)
+        this.db.pragma('journal_mode = WAL')
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS planning_sessions (
+                id TEXT PRIMARY KEY,
+                group_chat_id TEXT NOT NULL,
+                params TEXT NOT NULL,
+                status TEXT NOT NULL DEFAULT 'active',
+                state TEXT NOT NULL,
+                log TEXT NOT NULL DEFAULT '[]',
+                error TEXT,
+                created_at INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+            CREATE TABLE IF NOT EXISTS session_checkpoints (
+                session_id TEXT NOT NULL REFERENCES planning_sessions (id) ON DELETE CASCADE,
+                step TEXT NOT NULL,
+                output TEXT NOT NULL,
+                completed_at INTEGER NOT NULL,
+                PRIMARY KEY (session_id, step)
+            );
+        `)
+        this.db.pragma('foreign_keys = ON')
+    }
+
+    /**
+     * Start a new session
+     */
+    create<P>(groupChatId: string, params: P): PlanningSession<P> {
+        const id = randomUUID().slice(0, 8)
+        const now = Date.now()
+        const state: ConversationState = { step: 'started', responses: new Map(), allResponded: false }
+
+        this.db.prepare(`
+            INSERT INTO planning_sessions (id, group_chat_id, params, state, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `).run(id, groupChatId, serialize(params), serialize(state), now, now)
+
+        return this.get<P>(id)!
+    }
+
+    get<P = unknown>(id: string): PlanningSession<P> | null {
+        const row = this.db.prepare('SELECT * FROM planning_sessions WHERE id = ?').get(id) as SessionRow | undefined
+        return row ? this.toSession<P>(row) : null
+    }
+
+    /**
+     * List sessions, most recently updated first
+     */
+    list(filter: { status?: SessionStatus; groupChatId?: string } = {}): PlanningSession[] {
+        const conditions: string[] = []
+        const values: string[] = []
+        if (filter.status) {
+            conditions.push('status = ?')
+            values.push(filter.status)
+        }
+        if (filter.groupChatId) {
+            conditions.push('group_chat_id = ?')
+            values.push(filter.groupChatId)
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+        const rows = this.db.prepare(`SELECT * FROM planning_sessions ${where} ORDER BY updated_at DESC`).all(...values)
+        return (rows as SessionRow[]).map(row => this.toSession(row))
+    }
+
+    /**
+     * Save a completed step's output along with the conversation so far
+     */
+    saveStep(sessionId: string, step: PlanningStep, output: unknown, state: ConversationState, log: string[]): void {
+        const now = Date.now()
+        this.db.transaction(() => {
+            this.db.prepare(`
+                INSERT OR REPLACE INTO session_checkpoints (session_id, step, output, completed_at)
+                VALUES (?, ?, ?, ?)
+            `).run(sessionId, step, serialize(output), now)
+            this.db.prepare(`
+                UPDATE planning_sessions SET state = ?, log = ?, updated_at = ? WHERE id = ?
+            `).run(serialize(state), JSON.stringify(log), now, sessionId)
+        })()
+    }
+
+    /**
+     * A step's saved output, or undefined if the step hasn't completed
+     */
+    getStep<T>(sessionId: string, step: PlanningStep): T | undefined {
+        const row = this.db.prepare(`
+            SELECT output FROM session_checkpoints WHERE session_id = ? AND step = ?
+        `).get(sessionId, step) as Pick<CheckpointRow, 'output'> | undefined
+        return row ? deserialize<T>(row.output) : undefined
+    }
+
+    /**
+     * Every completed step of a session, in the order they completed
+     */
+    steps(sessionId: string): SessionCheckpoint[] {
+        const rows = this.db.prepare(`
+            SELECT step, output, completed_at FROM session_checkpoints
+            WHERE session_id = ? ORDER BY completed_at, rowid
+        `).all(sessionId) as CheckpointRow[]
+
+        return rows.map(row => ({
+            step: row.step,
+            output: deserialize(row.output),
+            completedAt: new Date(row.completed_at)
+        }))
+    }
+
+    setStatus(sessionId: string, status: SessionStatus, error: string | null = null): void {
+        this.db.prepare(`
+            UPDATE planning_sessions SET status = ?, error = ?, updated_at = ? WHERE id = ?
+        `).run(status, error, Date.now(), sessionId)
+    }
+
+    /**
+     * Delete a session and its checkpoints
+     *
+     * @returns true if the session existed
+     */
+    delete(sessionId: string): boolean {
+        return this.db.prepare('DELETE FROM planning_sessions WHERE id = ?').run(sessionId).changes > 0
+    }
+
+    close(): void {
+        this.db.close()
+    }
+
+    private toSession<P>(row: SessionRow): PlanningSession<P> {
+        return {
+            id: row.id,
+            groupChatId: row.group_chat_id,
+            params: deserialize<P>(row.params),
+            status: row.status,
+            state: deserialize<ConversationState>(row.state),
+            log: JSON.parse(row.log),
+            error: row.error,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        }
+    }
+}
@@ -131,6 +131,10 @@ export class TransportationAgent {
         date?: string
         preferences?: string[]
         budget?: 'low' | 'medium' | 'high'
+        /** Group feedback the suggestions must respect ("we don't want to drive") */
+        constraints?: string[]
+        /** ISO 4217 code prices should be given in (default: USD) */
+        currency?: string
     }): Promise<TransportRecommendation> {
         // Get real distance/duration from Google Maps if available
         const mapsData = await this.getGoogleMapsData(params.from, params.to)
@@ -142,7 +146,7 @@ export class TransportationAgent {
                     z.object({
                         method: z.string().describe('Type of transportation'),
                         provider: z.string().optional(),
-                        estimatedCostPerPerson: z.number().describe('Cost per person in USD'),
+                        estimatedCostPerPerson: z.number().describe('Cost per person, in the requested currency'),
                         duration: z.string(),
                         description: z.string(),
                         capacity: z.number().describe('How many people it can accommodate'),
@@ -166,6 +170,8 @@ Real Distance/Duration: {realDistance}
 Date: {date}
 Preferences: {preferences}
 Budget: {budget}
+Currency: {currency}
+Group Feedback (must respect): {constraints}
 
 Requirements:
 - Suggest 3-5 transportation options (rideshare, rental, public transit, etc.)
@@ -197,6 +203,8 @@ Transportation types to consider:
             date: params.date || 'Weekend',
             preferences: params.preferences?.join(', ') || 'No specific preferences',
             budget: params.budget || 'medium',
+            currency: params.currency || 'USD',
+            constraints: params.constraints?.join('; ') || 'None',
             format_instructions: parser.getFormatInstructions()
         })
 
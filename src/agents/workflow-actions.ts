@@ -0,0 +1,107 @@
+import { CalendarAgent } from './calendar-agent.js'
+import { WeatherAgent, type WeatherData } from './weather-agent.js'
+import { LocationAgent } from './location-agent.js'
+import { RestaurantAgent } from './restaurant-agent.js'
+import { TransportationAgent } from './transportation-agent.js'
+import { RedditAgent, type RedditInsights } from './reddit-agent.js'
+import { LodgingAgent, type LodgingProvider } from './lodging-agent.js'
+import {
+    HolidayPlanner,
+    type HolidayPlan,
+    type PlanningParams,
+    type TripParams,
+    type TripPlan
+} from './holiday-planner.js'
+import type { WorkflowActions } from './workflow.js'
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Workflow inputs come from JSON, so dates arrive as strings
+const toDate = (value: string | Date): Date => value instanceof Date ? value : new Date(value)
+
+/**
+ * The next few Saturdays as YYYY-MM-DD, labelled "This Saturday", "Next Saturday", ...
+ */
+function upcomingSaturdays(count: number): { date: string; label: string }[] {
+    const today = new Date()
+    const daysUntilSaturday = (6 - today.getDay() + 7) % 7 || 7
+
+    return Array.from({ length: count }, (_, i) => {
+        const date = new Date(today.getTime() + (daysUntilSaturday + i * 7) * DAY)
+        const label = i === 0 ? 'This Saturday' : i === 1 ? 'Next Saturday' : `In ${i} Saturdays`
+        return { date: date.toISOString().split('T')[0], label }
+    })
+}
+
+/**
+ * Budget level from free-form answers; the first answer mentioning a level wins
+ */
+function budgetLevel(answers: string[]): 'low' | 'medium' | 'high' {
+    for (const answer of answers.map(a => a.toLowerCase())) {
+        if (answer.includes('high') || answer.includes('expensive') || answer.includes('alto')) return 'high'
+        if (answer.includes('low') || answer.includes('cheap') || answer.includes('bajo')) return 'low'
+        if (answer.includes('medium') || answer.includes('medio')) return 'medium'
+    }
+    return 'medium'
+}
+
+/**
+ * The agent actions workflow files can call
+ *
+ * - calendar.findFreeTime {participants, startDate, endDate, duration}
+ * - dates.saturdays {count}
+ * - weather.forecast {city, date}, weather.report <forecast>, weather.activity <forecast>
+ * - location.find, restaurant.find, transport.find, lodging.find: the agents' own parameters
+ * - reddit.search {location, city, activityType}, reddit.report {insights, location}
+ * - planner.plan <PlanningParams>, planner.message <plan>
+ * - planner.trip <TripParams>, planner.tripMessage <trip>
+ * - budget.level {answers}
+ * - costs.total {costs, groupSize}
+ */
+export function createWorkflowActions(
+    apiKey: string,
+    options: { serpApiKey?: string; lodgingProvider?: LodgingProvider } = {}
+): WorkflowActions {
+    const calendar = new CalendarAgent(apiKey)
+    const weather = new WeatherAgent(apiKey)
+    const locations = new LocationAgent(apiKey)
+    const restaurants = new RestaurantAgent(apiKey)
+    const transport = new TransportationAgent(apiKey, options.serpApiKey)
+    const reddit = new RedditAgent(apiKey)
+    const lodging = new LodgingAgent(apiKey, options.lodgingProvider)
+    const planner = new HolidayPlanner(apiKey, undefined, options.lodgingProvider)
+
+    return {
+        'calendar.findFreeTime': input => calendar.findFreeTime(
+            input.participants,
+            toDate(input.startDate),
+            toDate(input.endDate),
+            input.duration
+        ),
+        'dates.saturdays': input => upcomingSaturdays(input?.count ?? 1),
+        'weather.forecast': input => weather.getWeatherForecast({ city: input.city, date: toDate(input.date) }),
+        'weather.report': (forecast: WeatherData) => weather.formatWeatherReport(forecast),
+        // Warm days suggest going outside
+        'weather.activity': (forecast: WeatherData) => forecast.temperature.avg > 15 ? 'outdoor' : 'indoor',
+        'location.find': input => locations.findLocations(input),
+        'restaurant.find': input => restaurants.findRestaurants(input),
+        'transport.find': input => transport.findTransportation(input),
+        'lodging.find': input => lodging.findLodging(input),
+        'reddit.search': input => reddit.searchLocation(input),
+        'reddit.report': (input: { insights: RedditInsights; location: string }) =>
+            reddit.formatInsights(input.insights, input.location),
+        'planner.plan': (input: PlanningParams) => planner.planOuting({
+            ...input,
+            startDate: toDate(input.startDate),
+            endDate: toDate(input.endDate)
+        }),
+        'planner.message': (plan: HolidayPlan) => planner.formatForIMessage(plan),
+        'planner.trip': (input: TripParams) => planner.planTrip({ ...input, startDate: toDate(input.startDate) }),
+        'planner.tripMessage': (trip: TripPlan) => planner.formatTripForIMessage(trip),
+        'budget.level': (input: { answers: string[] }) => budgetLevel(input.answers ?? []),
+        'costs.total': (input: { costs: (number | undefined)[]; groupSize: number }) => {
+            const perPerson = input.costs.reduce<number>((total, cost) => total + (cost ?? 0), 0)
+            return { perPerson, group: perPerson * input.groupSize }
+        }
+    }
+}
@@ -0,0 +1,372 @@
+import { existsSync, readFileSync } from 'fs'
+import { z } from 'zod'
+import { ConfirmationRules, type ConfirmationRule } from './confirmation.js'
+import type { InteractiveAgent } from './interactive-agent.js'
+import { formatMoney } from '../i18n.js'
+
+/**
+ * Agent calls a workflow can make, by name ("location.find")
+ * Each gets the step's resolved input and returns the step's output.
+ */
+export type WorkflowAction = (input: any) => unknown | Promise<unknown>
+export type WorkflowActions = Record<string, WorkflowAction>
+
+const CONFIRMATION_RULES: Record<string, () => ConfirmationRule> = {
+    majority: ConfirmationRules.majority,
+    majorityOfParticipants: ConfirmationRules.majorityOfParticipants,
+    unanimous: ConfirmationRules.unanimous
+}
+
+// Items rendered one per line, e.g. options with their details
+const ListSchema = z.object({
+    /** Template giving an array */
+    items: z.string(),
+    limit: z.number().int().positive().optional(),
+    /** Template per item; {{item}} is the item, {{number}} its 1-based position */
+    item: z.string()
+})
+
+const StepBase = {
+    /** Name the step's output is stored under */
+    id: z.string().regex(/^[A-Za-z_]\w*$/, 'Expected a name like location or transportTo').optional(),
+    /** Only run when this template is truthy */
+    when: z.string().optional(),
+    /** Skip when this template is truthy */
+    unless: z.string().optional()
+}
+
+const StepSchema = z.discriminatedUnion('type', [
+    z.object({
+        ...StepBase,
+        type: z.literal('message'),
+        text: z.string(),
+        list: ListSchema.optional()
+    }),
+    z.object({
+        ...StepBase,
+        type: z.literal('question'),
+        prompt: z.string(),
+        timeout: z.number().int().positive().optional(),
+        /** Answers (templates) to use when nobody replies */
+        default: z.array(z.string()).optional(),
+        /** Sent when nobody replies */
+        defaultMessage: z.string().optional(),
+        /** Translate answers to English before later steps use them (default: false) */
+        normalize: z.boolean().optional()
+    }),
+    z.object({
+        ...StepBase,
+        type: z.literal('poll'),
+        prompt: z.string(),
+        options: ListSchema.omit({ item: true }).extend({ label: z.string() }),
+        method: z.enum(['plurality', 'approval', 'ranked']).optional(),
+        timeout: z.number().int().positive().optional()
+    }),
+    z.object({
+        ...StepBase,
+        type: z.literal('confirm'),
+        prompt: z.string(),
+        rule: z.enum(Object.keys(CONFIRMATION_RULES) as [string, ...string[]]).optional(),
+        timeout: z.number().int().positive().optional()
+    }),
+    z.object({
+        ...StepBase,
+        type: z.literal('agent'),
+        /** Action name, e.g. location.find */
+        call: z.string(),
+        /** Templates (at any depth) resolved against earlier outputs */
+        input: z.unknown().optional()
+    }),
+    z.object({
+        ...StepBase,
+        type: z.literal('wait'),
+        duration: z.number().int().nonnegative()
+    })
+])
+
+const WorkflowSchema = z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    steps: z.array(StepSchema).min(1)
+})
+
+export type WorkflowStep = z.infer<typeof StepSchema>
+export type WorkflowDefinition = z.infer<typeof WorkflowSchema>
+
+export interface WorkflowEngineOptions {
+    /**
+     * Wraps each step that has an id, e.g. to save its output and reuse it
+     * when an interrupted run is resumed
+     */
+    checkpoint?: (step: WorkflowStep & { id: string }, run: () => Promise<unknown>) => Promise<unknown>
+}
+
+export interface WorkflowResult {
+    /** Each step's output, by step id */
+    outputs: Record<string, unknown>
+    /** Steps skipped by when/unless, by id or position */
+    skipped: string[]
+}
+
+/**
+ * Load and validate a workflow file
+ */
+export function loadWorkflow(path: string): WorkflowDefinition {
+    if (!existsSync(path)) {
+        throw new Error(`Workflow file ${path} not found`)
+    }
+
+    let data: unknown
+    try {
+        data = JSON.parse(readFileSync(path, 'utf-8'))
+    } catch (error) {
+        throw new Error(`Invalid JSON in ${path}: ${error instanceof Error ? error.message : error}`)
+    }
+
+    return parseWorkflow(data, path)
+}
+
+/**
+ * Validate an already-parsed workflow object
+ */
+export function parseWorkflow(data: unknown, source: string = 'workflow'): WorkflowDefinition {
+    const result = WorkflowSchema.safeParse(data)
+    if (!result.success) {
+        const issues = result.error.issues
+            .map(issue => `   - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+            .join('\n')
+        throw new Error(`Invalid workflow in ${source}:\n${issues}`)
+    }
+
+    const ids = result.data.steps.map(step => step.id).filter(Boolean)
+    const duplicate = ids.find((id, i) => ids.indexOf(id) !== i)
+    if (duplicate) {
+        throw new Error(`Invalid workflow in ${source}: step id "${duplicate}" is used twice`)
+    }
+    return result.data
+}
+
+// Filters get the whole scope too, e.g. money defaults to {{input.currency}}
+const FILTERS: Record<string, (value: any, arg: string | undefined, scope: Record<string, unknown>) => unknown> = {
+    join: (value, separator = ', ') => Array.isArray(value) ? value.join(separator) : value,
+    bullets: value => Array.isArray(value) ? value.map(line => `• ${line}`).join('\n') : value,
+    take: (value, count = '1') => Array.isArray(value) ? value.slice(0, parseInt(count)) : value,
+    first: value => Array.isArray(value) ? value[0] : value,
+    count: value => Array.isArray(value) ? value.length : 0,
+    money: (value, currency, scope) => typeof value === 'number'
+        ? formatMoney(value, currency || (scope.input as { currency?: string } | undefined)?.currency)
+        : value,
+    upper: value => typeof value === 'string' ? value.toUpperCase() : value,
+    lower: value => typeof value === 'string' ? value.toLowerCase() : value
+}
+
+const isEmpty = (value: unknown): boolean =>
+    value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+
+function lookup(path: string, scope: Record<string, unknown>): unknown {
+    const literal = path.match(/^'(.*)'$/)
+    if (literal) return literal[1]
+    if (/^-?\d+(\.\d+)?$/.test(path)) return Number(path)
+
+    return path.split('.').reduce<any>((value, key) => value == null ? undefined : value[key], scope)
+}
+
+/**
+ * Evaluate one {{...}} expression
+ *
+ * `a.b || c || 'text'` takes the first non-empty value; `| join`, `| take:3`
+ * and the other filters then apply in order.
+ */
+function evaluate(expression: string, scope: Record<string, unknown>): unknown {
+    const [head, ...filters] = expression.split(/(?<!\|)\|(?!\|)/).map(part => part.trim())
+
+    let value: unknown
+    for (const alternative of head.split('||').map(part => part.trim())) {
+        value = lookup(alternative, scope)
+        if (!isEmpty(value)) break
+    }
+
+    for (const filter of filters) {
+        const [name, arg] = filter.split(':').map(part => part.trim())
+        const apply = FILTERS[name]
+        if (!apply) throw new Error(`Unknown template filter "${name}" in {{${expression}}}`)
+        value = apply(value, arg?.replace(/^'(.*)'$/, '$1'), scope)
+    }
+    return value
+}
+
+const EXPRESSION = /\{\{\s*([^}]+?)\s*\}\}/g
+
+/**
+ * Fill in a template
+ * A template that is exactly one {{expression}} gives the raw value (an
+ * array stays an array); anything else gives text. Objects and arrays are
+ * resolved at every depth.
+ */
+export function resolveTemplate(template: unknown, scope: Record<string, unknown>): unknown {
+    if (Array.isArray(template)) return template.map(entry => resolveTemplate(entry, scope))
+    if (template && typeof template === 'object') {
+        return Object.fromEntries(Object.entries(template).map(([key, entry]) => [key, resolveTemplate(entry, scope)]))
+    }
+    if (typeof template !== 'string') return template
+
+    const whole = template.match(/^\{\{\s*([^}]+?)\s*\}\}$/)
+    if (whole) return evaluate(whole[1], scope)
+
+    return template.replace(EXPRESSION, (_, expression: string) => {
+        const value = evaluate(expression, scope)
+        if (value === undefined || value === null) return ''
+        if (Array.isArray(value)) return value.join(', ')
+        return typeof value === 'object' ? JSON.stringify(value) : String(value)
+    })
+}
+
+/**
+ * Workflow Engine - Runs planning flows described in workflow files
+ *
+ * Steps run in order. Each step's output is stored under its id, so later
+ * prompts and agent inputs can use it: "{{location.choice.name}}".
+ * Besides step outputs, templates can use {{input.*}}, {{participants}}
+ * and {{groupSize}}.
+ *
+ * Usage:
+ *   const engine = new WorkflowEngine(interactive, createWorkflowActions(apiKey), participants)
+ *   await engine.run(loadWorkflow('workflows/clean-planner.json'), { city: 'Austin' })
+ */
+export class WorkflowEngine {
+    constructor(
+        private interactive: InteractiveAgent,
+        private actions: WorkflowActions,
+        private participants: string[] = [],
+        private options: WorkflowEngineOptions = {}
+    ) {}
+
+    async run(workflow: WorkflowDefinition, input: Record<string, unknown> = {}): Promise<WorkflowResult> {
+        const unknown = workflow.steps
+            .flatMap(step => step.type === 'agent' && !this.actions[step.call] ? [step.call] : [])
+        if (unknown.length > 0) {
+            throw new Error(`Workflow ${workflow.name} calls unknown agent actions: ${unknown.join(', ')}`)
+        }
+
+        console.log(`🧭 Running workflow ${workflow.name} (${workflow.steps.length} steps)\n`)
+
+        const outputs: Record<string, unknown> = {}
+        const skipped: string[] = []
+        const scope = (): Record<string, unknown> => ({
+            ...outputs,
+            input,
+            participants: this.participants,
+            groupSize: this.participants.length
+        })
+
+        for (const [index, step] of workflow.steps.entries()) {
+            const name = step.id ?? `#${index + 1}`
+            const runIt = (step.when === undefined || Boolean(resolveTemplate(step.when, scope()))) &&
+                (step.unless === undefined || !resolveTemplate(step.unless, scope()))
+
+            if (!runIt) {
+                skipped.push(name)
+                continue
+            }
+
+            console.log(`▶️  ${workflow.name}: ${name} (${step.type})`)
+            const run = () => this.runStep(step, scope())
+            if (step.id) {
+                outputs[step.id] = this.options.checkpoint
+                    ? await this.options.checkpoint(step as WorkflowStep & { id: string }, run)
+                    : await run()
+            } else {
+                await run()
+            }
+        }
+
+        console.log(`\n✅ Workflow ${workflow.name} finished\n`)
+        return { outputs, skipped }
+    }
+
+    private async runStep(step: WorkflowStep, scope: Record<string, unknown>): Promise<unknown> {
+        const text = (template: string) => String(resolveTemplate(template, scope) ?? '')
+
+        switch (step.type) {
+            case 'message': {
+                const lines = step.list ? this.renderList(step.list, scope) : []
+                const message = [text(step.text), ...lines].filter(Boolean).join('\n\n')
+                await this.interactive.sendSummary(message)
+                return message
+            }
+
+            case 'question': {
+                const result = await this.interactive.askQuestion(text(step.prompt), { timeout: step.timeout })
+                const responses = step.normalize
+                    ? await this.interactive.normalizeResponses(result)
+                    : result.responses
+
+                let answers = Array.from(responses.values())
+                if (answers.length === 0 && step.default) {
+                    answers = step.default.map(text)
+                    if (step.defaultMessage) {
+                        await this.interactive.sendSummary(text(step.defaultMessage))
+                    }
+                }
+                return { answers, responses: Object.fromEntries(responses), missing: result.missing }
+            }
+
+            case 'poll': {
+                const items = this.items(step.options, scope)
+                if (items.length === 0) {
+                    throw new Error(`Poll "${step.id ?? step.prompt}" has no options`)
+                }
+                const labels = items.map((item, i) =>
+                    String(resolveTemplate(step.options.label, { ...scope, item, number: i + 1 }))
+                )
+
+                const poll = await this.interactive.askPoll(text(step.prompt), labels, {
+                    method: step.method,
+                    timeout: step.timeout
+                })
+                // Most votes wins; a tie goes to the first option, no votes to the first
+                const index = poll.leaders[0] ?? 0
+                return {
+                    index,
+                    choice: items[index],
+                    label: labels[index],
+                    leaders: poll.leaders,
+                    isTie: poll.isTie,
+                    responses: Object.fromEntries(poll.question.responses)
+                }
+            }
+
+            case 'confirm': {
+                const confirmation = await this.interactive.askConfirmation(text(step.prompt), {
+                    timeout: step.timeout,
+                    rule: step.rule ? CONFIRMATION_RULES[step.rule]() : undefined
+                })
+                return {
+                    confirmed: confirmation.confirmed,
+                    changeRequests: confirmation.changeRequests,
+                    missing: confirmation.missing
+                }
+            }
+
+            case 'agent':
+                return this.actions[step.call](resolveTemplate(step.input, scope))
+
+            case 'wait':
+                await new Promise(resolve => setTimeout(resolve, step.duration))
+                return null
+        }
+    }
+
+    private items(list: { items: string; limit?: number }, scope: Record<string, unknown>): unknown[] {
+        const items = resolveTemplate(list.items, scope)
+        if (!Array.isArray(items)) {
+            throw new Error(`"${list.items}" is not a list`)
+        }
+        return list.limit ? items.slice(0, list.limit) : items
+    }
+
+    private renderList(list: z.infer<typeof ListSchema>, scope: Record<string, unknown>): string[] {
+        return this.items(list, scope)
+            .map((item, i) => String(resolveTemplate(list.item, { ...scope, item, number: i + 1 })))
+    }
+}
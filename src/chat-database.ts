@@ -0,0 +1,288 @@
+import Database from 'better-sqlite3'
+import { homedir } from 'os'
+import { join } from 'path'
+import { reactionFromCode } from './reactions.js'
+import type { GroupInfo, IncomingMessage, MessageReference } from './transport.js'
+
+// chat.style for group conversations (1:1 chats use 45)
+const GROUP_CHAT_STYLE = 43
+
+// macOS stores dates relative to 2001-01-01
+const MAC_EPOCH_MS = Date.UTC(2001, 0, 1)
+
+interface ChatRow {
+    rowId: number
+    chatId: string
+    displayName: string | null
+    firstDate: number | null
+    lastDate: number | null
+    unread: number
+}
+
+interface MessageRow {
+    guid: string
+    chatId: string
+    sender: string | null
+    text: string | null
+    attributedBody: Buffer | null
+    isFromMe: number
+    date: number
+    associatedGuid: string | null
+    associatedType: number | null
+    threadOriginatorGuid: string | null
+}
+
+const MESSAGE_SELECT = `
+    SELECT
+        m.guid AS guid,
+        c.chat_identifier AS chatId,
+        h.id AS sender,
+        m.text AS text,
+        m.attributedBody AS attributedBody,
+        m.is_from_me AS isFromMe,
+        m.date AS date,
+        m.associated_message_guid AS associatedGuid,
+        m.associated_message_type AS associatedType,
+        m.thread_originator_guid AS threadOriginatorGuid
+    FROM message m
+    JOIN chat_message_join cmj ON cmj.message_id = m.ROWID
+    JOIN chat c ON c.ROWID = cmj.chat_id
+    LEFT JOIN handle h ON h.ROWID = m.handle_id
+`
+
+export interface MessageSearch {
+    /** Chat to search (default: all chats) */
+    chatId?: string
+    /** Case-insensitive text to look for */
+    text?: string
+    /** Case-insensitive part of the sender handle; "me" matches your own messages */
+    sender?: string
+    since?: Date
+    until?: Date
+    /** Maximum number of messages to return (oldest first) */
+    limit?: number
+}
+
+/**
+ * Chat Database - Read-only access to the Messages database (chat.db)
+ *
+ * Needs Full Disk Access on macOS. Point it at any file with the same
+ * schema (see createChatDbFixture) to use it elsewhere.
+ *
+ * Usage:
+ *   const db = new ChatDatabase()
+ *   const groups = db.listGroupChats()
+ *   db.close()
+ */
+export class ChatDatabase {
+    private db: Database.Database
+
+    constructor(path: string = ChatDatabase.defaultPath()) {
+        this.db = new Database(path, { readonly: true, fileMustExist: true })
+    }
+
+    /**
+     * Default location of the Messages database
+     */
+    static defaultPath(): string {
+        return join(homedir(), 'Library', 'Messages', 'chat.db')
+    }
+
+    /**
+     * List group chats with names, members and unread counts
+     * chat.db has no creation column, so createdAt is the first message date.
+     *
+     * @param limit - Maximum number of groups to return (most recent first)
+     */
+    listGroupChats(limit?: number): GroupInfo[] {
+        const rows = this.db.prepare(`
+            SELECT
+                c.ROWID AS rowId,
+                c.chat_identifier AS chatId,
+                c.display_name AS displayName,
+                MIN(m.date) AS firstDate,
+                MAX(m.date) AS lastDate,
+                COALESCE(SUM(
+                    CASE WHEN m.is_from_me = 0 AND m.is_read = 0 AND m.associated_message_type = 0
+                    THEN 1 ELSE 0 END
+                ), 0) AS unread
+            FROM chat c
+            LEFT JOIN chat_message_join cmj ON cmj.chat_id = c.ROWID
+            LEFT JOIN message m ON m.ROWID = cmj.message_id
+            WHERE c.style = ?
+            GROUP BY c.ROWID
+            ORDER BY lastDate IS NULL, lastDate DESC
+        `).all(GROUP_CHAT_STYLE) as ChatRow[]
+
+        const membersQuery = this.db.prepare(`
+            SELECT h.id AS handle
+            FROM chat_handle_join chj
+            JOIN handle h ON h.ROWID = chj.handle_id
+            WHERE chj.chat_id = ?
+            ORDER BY h.id
+        `)
+
+        const groups = rows.map(row => {
+            const members = (membersQuery.all(row.rowId) as { handle: string }[]).map(m => m.handle)
+
+            return {
+                chatId: row.chatId,
+                name: row.displayName?.trim() || this.describeMembers(members, row.chatId),
+                members,
+                createdAt: this.toDate(row.firstDate),
+                lastMessageAt: this.toDate(row.lastDate),
+                unreadCount: row.unread
+            }
+        })
+
+        return limit !== undefined ? groups.slice(0, limit) : groups
+    }
+
+    /**
+     * Search message history, oldest first
+     * Tapback reactions are not included.
+     */
+    searchMessages(search: MessageSearch = {}): IncomingMessage[] {
+        const conditions = ['m.associated_message_type = 0']
+        const params: (string | number)[] = []
+
+        if (search.chatId) {
+            conditions.push('c.chat_identifier = ?')
+            params.push(search.chatId)
+        }
+        if (search.since) {
+            conditions.push('m.date >= ?')
+            params.push(this.toMacTimestamp(search.since))
+        }
+        if (search.until) {
+            conditions.push('m.date <= ?')
+            params.push(this.toMacTimestamp(search.until))
+        }
+
+        const rows = this.db.prepare(`
+            ${MESSAGE_SELECT}
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY m.date ASC
+        `).iterate(...params) as IterableIterator<MessageRow>
+
+        const text = search.text?.toLowerCase()
+        const sender = search.sender?.toLowerCase()
+        const messages: IncomingMessage[] = []
+
+        // Text and sender are matched here because newer macOS versions
+        // keep the text in attributedBody instead of the text column
+        for (const row of rows) {
+            const message = this.toMessage(row)
+            if (text && !message.text.toLowerCase().includes(text)) continue
+            if (sender && !message.sender.toLowerCase().includes(sender)) continue
+
+            messages.push(message)
+            if (search.limit !== undefined && messages.length >= search.limit) break
+        }
+
+        return messages
+    }
+
+    /**
+     * Look up a single message by GUID
+     * Tapbacks come back with their reaction and the message they target;
+     * threaded replies with the message they reply to.
+     */
+    getMessage(guid: string): IncomingMessage | null {
+        const row = this.findRow(guid)
+        if (!row) return null
+
+        const message = this.toMessage(row)
+
+        if (row.threadOriginatorGuid) {
+            message.replyTo = this.toReference(row.threadOriginatorGuid)
+        }
+
+        const reaction = reactionFromCode(row.associatedType ?? 0)
+        if (reaction && row.associatedGuid) {
+            // associated_message_guid looks like "p:0/<guid>" or "bp:<guid>"
+            const targetGuid = row.associatedGuid.replace(/^(p:\d+\/|bp:)/, '')
+            message.reaction = { ...reaction, target: this.toReference(targetGuid) }
+        }
+
+        return message
+    }
+
+    /**
+     * Close the database connection
+     */
+    close(): void {
+        this.db.close()
+    }
+
+    /**
+     * Unnamed groups are shown like Messages.app does: by their members
+     */
+    private describeMembers(members: string[], chatId: string): string {
+        if (members.length === 0) return chatId
+        if (members.length <= 3) return members.join(', ')
+        return `${members.slice(0, 3).join(', ')} & ${members.length - 3} more`
+    }
+
+    private findRow(guid: string): MessageRow | undefined {
+        return this.db.prepare(`${MESSAGE_SELECT} WHERE m.guid = ?`).get(guid) as MessageRow | undefined
+    }
+
+    /**
+     * Reference to another message; unknown GUIDs keep their ID with no text
+     */
+    private toReference(guid: string): MessageReference {
+        const row = this.findRow(guid)
+        return row
+            ? { id: row.guid, text: this.toMessage(row).text, isFromMe: row.isFromMe === 1 }
+            : { id: guid, text: '', isFromMe: false }
+    }
+
+    private toMessage(row: MessageRow): IncomingMessage {
+        return {
+            id: row.guid,
+            chatId: row.chatId,
+            sender: row.isFromMe ? 'me' : row.sender || 'unknown',
+            text: row.text ?? this.decodeAttributedBody(row.attributedBody) ?? '',
+            isFromMe: row.isFromMe === 1,
+            date: this.toDate(row.date) ?? new Date(MAC_EPOCH_MS)
+        }
+    }
+
+    /**
+     * Pull the plain text out of an attributedBody (NSAttributedString typedstream)
+     */
+    private decodeAttributedBody(body: Buffer | null): string | null {
+        if (!body) return null
+
+        const marker = body.indexOf('NSString')
+        if (marker < 0) return null
+
+        // Class name is followed by 5 bytes of type info, then the length
+        let offset = marker + 'NSString'.length + 5
+        let length = body[offset]
+        offset += 1
+        if (length === 0x81) {
+            length = body.readUInt16LE(offset)
+            offset += 2
+        } else if (length === 0x82) {
+            length = body.readUInt32LE(offset)
+            offset += 4
+        }
+
+        return body.subarray(offset, offset + length).toString('utf-8')
+    }
+
+    private toMacTimestamp(date: Date): number {
+        return (date.getTime() - MAC_EPOCH_MS) * 1e6
+    }
+
+    /**
+     * Convert a chat.db timestamp (seconds or nanoseconds since 2001) to a Date
+     */
+    private toDate(value: number | null): Date | null {
+        if (!value) return null
+        const ms = value > 1e12 ? value / 1e6 : value * 1000
+        return new Date(MAC_EPOCH_MS + ms)
+    }
+}
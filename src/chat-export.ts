@@ -0,0 +1,67 @@
+import type { IncomingMessage } from './transport.js'
+
+export type ExportFormat = 'json' | 'csv' | 'markdown'
+
+/**
+ * Render messages as a JSON, CSV or Markdown transcript
+ *
+ * @param messages - Messages in the order they should appear
+ * @param format - Output format
+ * @param title - Heading for the Markdown transcript
+ */
+export function formatTranscript(
+    messages: IncomingMessage[],
+    format: ExportFormat,
+    title: string = 'Chat transcript'
+): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(messages.map(m => ({
+                id: m.id,
+                chatId: m.chatId,
+                sender: m.sender,
+                isFromMe: m.isFromMe,
+                date: m.date.toISOString(),
+                text: m.text
+            })), null, 2)
+
+        case 'csv': {
+            const header = 'date,sender,is_from_me,text'
+            const rows = messages.map(m => [
+                m.date.toISOString(),
+                csvField(m.sender),
+                m.isFromMe ? 'true' : 'false',
+                csvField(m.text)
+            ].join(','))
+            return [header, ...rows].join('\n')
+        }
+
+        case 'markdown': {
+            const lines = [`# ${title}`, '']
+            let currentDay = ''
+
+            for (const m of messages) {
+                const day = m.date.toISOString().split('T')[0]
+                if (day !== currentDay) {
+                    currentDay = day
+                    lines.push(`## ${day}`, '')
+                }
+                const time = m.date.toISOString().slice(11, 16)
+                const text = m.text.replace(/\n/g, '  \n> ')
+                lines.push(`**${m.sender}** _${time}_`, `> ${text}`, '')
+            }
+
+            return lines.join('\n')
+        }
+
+        default:
+            throw new Error(`Unsupported export format: ${format}`)
+    }
+}
+
+/**
+ * Quote a CSV field when it contains commas, quotes or line breaks
+ */
+function csvField(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
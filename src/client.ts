@@ -1,22 +1,53 @@
-import { IMessageSDK } from '@photon-ai/imessage-kit'
+import { IMessageSDK, type Message } from '@photon-ai/imessage-kit'
+import { access } from 'fs/promises'
+import { resolve } from 'path'
+import { splitMessage } from './message-splitter.js'
+import { ChatDatabase, type MessageSearch } from './chat-database.js'
+import { formatTranscript, type ExportFormat } from './chat-export.js'
+import { GroupsConfig } from './groups-config.js'
+import { parseReactionText } from './reactions.js'
+import type {
+    GroupInfo,
+    IncomingMessage,
+    MessageHandler,
+    MessagingTransport,
+    SendOptions
+} from './transport.js'
 
-export interface IMessageConfig {
-    debug?: boolean
-    maxConcurrent?: number
-    timeout?: number
+export type { GroupInfo, SendOptions } from './transport.js'
+
+export interface AttachmentFailure {
+    path: string
+    reason: string
 }
 
-export interface SendOptions {
-    text?: string
-    images?: string[]
-    files?: string[]
+/**
+ * Thrown when one or more attachments could not be sent to a group chat
+ */
+export class AttachmentSendError extends Error {
+    constructor(
+        public readonly chatId: string,
+        public readonly attempted: number,
+        public readonly failures: AttachmentFailure[]
+    ) {
+        super(
+            `Failed to send ${failures.length}/${attempted} attachment(s) to ${chatId}:\n` +
+            failures.map(f => `   - ${f.path}: ${f.reason}`).join('\n')
+        )
+        this.name = 'AttachmentSendError'
+    }
 }
 
-export interface GroupInfo {
-    chatId: string
-    name: string
-    lastMessageAt: Date | null
-    unreadCount: number
+export interface IMessageConfig {
+    debug?: boolean
+    maxConcurrent?: number
+    timeout?: number
+    /** Messages database path (default: ~/Library/Messages/chat.db) */
+    databasePath?: string
+    /** Split longer text into numbered parts, 0 disables (default: 2000) */
+    maxMessageLength?: number
+    /** Group aliases usable in place of chat IDs (default: loaded from config/groups.json) */
+    groups?: GroupsConfig
 }
 
 /**
@@ -27,12 +58,21 @@ export interface GroupInfo {
  *   await client.send('chat123...', 'Hello!')
  *   await client.send('+1234567890', 'Hi there!')
  */
-export class IMessageClient {
+export class IMessageClient implements MessagingTransport {
     private sdk: IMessageSDK
     private initialized: boolean = false
+    private handlers: Set<MessageHandler> = new Set()
+    private watching: boolean = false
+    private maxMessageLength: number
+    private databasePath: string
+    private chatDatabase?: ChatDatabase
+    private groups: GroupsConfig
+    private debug: boolean
 
     constructor(config: IMessageConfig = {}) {
+        this.databasePath = config.databasePath ?? ChatDatabase.defaultPath()
         this.sdk = new IMessageSDK({
+            databasePath: this.databasePath,
             debug: config.debug ?? false,
             maxConcurrent: config.maxConcurrent ?? 5,
             scriptTimeout: config.timeout ?? 30000,
@@ -42,13 +82,17 @@ export class IMessageClient {
                 excludeOwnMessages: true
             }
         })
+        this.maxMessageLength = config.maxMessageLength ?? 2000
+        this.groups = config.groups ?? GroupsConfig.load()
+        this.debug = config.debug ?? false
         this.initialized = true
     }
 
     /**
      * Send a message (text, images, or files) to a chat
+     * Text longer than `maxMessageLength` is split into "(1/3)" parts.
      * 
-     * @param chatId - Chat ID (e.g., 'chat123...') or phone number (e.g., '+1234567890')
+     * @param chatId - Chat ID (e.g., 'chat123...'), group alias (e.g., 'family') or phone number (e.g., '+1234567890')
      * @param message - Text message or object with text/images/files
      * 
      * @example
@@ -67,17 +111,33 @@ export class IMessageClient {
      * })
      */
     async send(chatId: string, message: string | SendOptions): Promise<void> {
+        chatId = this.groups.resolve(chatId)
+        const options = typeof message === 'string' ? { text: message } : message
+        const parts = options.text
+            ? splitMessage(options.text, { maxLength: this.maxMessageLength })
+            : ['']
+
+        // Long text goes out as ordered parts; attachments ride with the last one
+        for (let i = 0; i < parts.length; i++) {
+            const isLast = i === parts.length - 1
+            await this.sendPart(chatId, {
+                text: parts[i] || undefined,
+                images: isLast ? options.images : undefined,
+                files: isLast ? options.files : undefined
+            })
+        }
+    }
+
+    private async sendPart(chatId: string, options: SendOptions): Promise<void> {
         try {
             // For group chats, use direct AppleScript since the SDK doesn't support them
             if (chatId.startsWith('chat')) {
-                const textMessage = typeof message === 'string' ? message : message.text || ''
-                await this.sendToGroupViaAppleScript(chatId, textMessage)
-                console.log(`✅ Message sent to group ${chatId}`)
+                await this.sendToGroup(chatId, options)
                 return
             }
             
             // For phone numbers/emails, use the SDK
-            await this.sdk.send(chatId, message)
+            await this.sdk.send(chatId, options)
             console.log(`✅ Message sent to ${chatId}`)
         } catch (error) {
             console.error(`❌ Failed to send message:`, error)
@@ -85,11 +145,56 @@ export class IMessageClient {
         }
     }
 
+    /**
+     * Send text and attachments to a group chat
+     * Text goes first, then each image/file as its own message.
+     * Every attachment is attempted; failures are collected and thrown together.
+     */
+    private async sendToGroup(chatId: string, options: SendOptions): Promise<void> {
+        if (options.text) {
+            await this.sendToGroupViaAppleScript(chatId, `"${this.escapeAppleScript(options.text)}"`)
+        }
+
+        const attachments = [...(options.images || []), ...(options.files || [])]
+        const failures: AttachmentFailure[] = []
+
+        for (const path of attachments) {
+            try {
+                const absolutePath = resolve(path)
+
+                try {
+                    await access(absolutePath)
+                } catch {
+                    throw new Error('File not found')
+                }
+
+                await this.sendToGroupViaAppleScript(
+                    chatId,
+                    `(POSIX file "${this.escapeAppleScript(absolutePath)}")`
+                )
+            } catch (error) {
+                failures.push({
+                    path,
+                    reason: error instanceof Error ? error.message : String(error)
+                })
+            }
+        }
+
+        if (failures.length > 0) {
+            throw new AttachmentSendError(chatId, attachments.length, failures)
+        }
+
+        const attachmentNote = attachments.length > 0 ? ` (${attachments.length} attachment(s))` : ''
+        console.log(`✅ Message sent to group ${chatId}${attachmentNote}`)
+    }
+
     /**
      * Send to group chat using AppleScript directly
      * The basic iMessage Kit doesn't support group chats
+     * 
+     * @param payload - AppleScript expression to send (quoted text or POSIX file)
      */
-    private async sendToGroupViaAppleScript(chatId: string, text: string): Promise<void> {
+    private async sendToGroupViaAppleScript(chatId: string, payload: string): Promise<void> {
         const { exec } = await import('child_process')
         const { promisify } = await import('util')
         const execAsync = promisify(exec)
@@ -97,18 +202,12 @@ export class IMessageClient {
         //Extract numeric ID from chatId (e.g., "chat85598446218630183" -> "85598446218630183")
         const numericId = chatId.replace('chat', '')
         
-        // Escape special characters in the message
-        const escapedText = text
-            .replace(/\\/g, '\\\\')
-            .replace(/"/g, '\\"')
-            .replace(/\n/g, '\\n')
-        
         // AppleScript to send to group using the chat's GUID
         const script = `
             tell application "Messages"
                 set targetService to 1st account whose service type = iMessage
                 set targetChat to 1st chat whose id = "iMessage;-;${numericId}"
-                send "${escapedText}" to targetChat
+                send ${payload} to targetChat
             end tell
         `
         
@@ -121,7 +220,7 @@ export class IMessageClient {
                     set allChats to every chat
                     repeat with aChat in allChats
                         if id of aChat contains "${numericId}" then
-                            send "${escapedText}" to aChat
+                            send ${payload} to aChat
                             return
                         end if
                     end repeat
@@ -132,6 +231,16 @@ export class IMessageClient {
         }
     }
 
+    /**
+     * Escape special characters for an AppleScript string literal
+     */
+    private escapeAppleScript(value: string): string {
+        return value
+            .replace(/\\/g, '\\\\')
+            .replace(/"/g, '\\"')
+            .replace(/\n/g, '\\n')
+    }
+
     /**
      * Send text message to a chat
      * 
@@ -174,7 +283,7 @@ export class IMessageClient {
      */
     async sendToMultiple(chatIds: string[], message: string | SendOptions): Promise<void> {
         const messages = chatIds.map(chatId => ({
-            to: chatId,
+            to: this.groups.resolve(chatId),
             content: message
         }))
 
@@ -192,65 +301,85 @@ export class IMessageClient {
     }
 
     /**
-     * List all group chats
+     * List all group chats, read directly from the Messages database
+     * 
+     * @param limit - Maximum number of groups to return (default: all)
+     * @returns Array of group chat information, most recent first
+     */
+    async listGroups(limit?: number): Promise<GroupInfo[]> {
+        return this.getChatDatabase().listGroupChats(limit)
+    }
+
+    /**
+     * Search message history, oldest first
+     * 
+     * @param search - Chat ID or alias, text, sender, since/until, limit
      * 
-     * @param limit - Maximum number of messages to analyze (default: 1000)
-     * @returns Array of group chat information
+     * @example
+     * // What did Sam say about the budget last week?
+     * await client.searchMessages({
+     *   chatId: 'family',
+     *   sender: 'sam',
+     *   text: 'budget',
+     *   since: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
+     * })
      */
-    async listGroups(limit: number = 1000): Promise<GroupInfo[]> {
-        const result = await this.sdk.getMessages({
-            limit,
-            excludeOwnMessages: false
+    async searchMessages(search: MessageSearch = {}): Promise<IncomingMessage[]> {
+        return this.getChatDatabase().searchMessages({
+            ...search,
+            chatId: search.chatId ? this.groups.resolve(search.chatId) : undefined
         })
+    }
 
-        const groupMap = new Map<string, GroupInfo>()
-
-        for (const msg of result.messages) {
-            if (msg.isGroupChat && !groupMap.has(msg.chatId)) {
-                groupMap.set(msg.chatId, {
-                    chatId: msg.chatId,
-                    name: msg.chatId.startsWith('chat') 
-                        ? `Group ${msg.chatId.slice(4, 12)}` 
-                        : msg.chatId,
-                    lastMessageAt: msg.date,
-                    unreadCount: 0
-                })
-            } else if (msg.isGroupChat && groupMap.has(msg.chatId)) {
-                const existing = groupMap.get(msg.chatId)!
-                if (msg.date > (existing.lastMessageAt || new Date(0))) {
-                    existing.lastMessageAt = msg.date
-                }
-            }
-        }
+    /**
+     * Export a chat transcript
+     * 
+     * @param chatId - Chat ID or group alias
+     * @param format - 'json', 'csv' or 'markdown' (default: markdown)
+     * @param range - Optional since/until dates
+     * @returns Transcript text, ready to write to a file
+     */
+    async exportChat(
+        chatId: string,
+        format: ExportFormat = 'markdown',
+        range: { since?: Date; until?: Date } = {}
+    ): Promise<string> {
+        const resolved = this.groups.resolve(chatId)
+        const messages = await this.searchMessages({ chatId: resolved, ...range })
+        const group = (await this.listGroups()).find(g => g.chatId === resolved)
+        return formatTranscript(messages, format, group?.name ?? resolved)
+    }
 
-        // Get unread counts
-        const unreadResult = await this.sdk.getUnreadMessages()
-        for (const group of unreadResult) {
-            const chat = Array.from(groupMap.values()).find(c =>
-                c.chatId === group.sender || c.chatId.includes(group.sender)
-            )
-            if (chat) {
-                chat.unreadCount = group.messages.length
+    private getChatDatabase(): ChatDatabase {
+        if (!this.chatDatabase) {
+            try {
+                this.chatDatabase = new ChatDatabase(this.databasePath)
+            } catch (error) {
+                throw new Error(
+                    `Cannot open Messages database at ${this.databasePath}. ` +
+                    `Grant Full Disk Access to your terminal/IDE. (${error instanceof Error ? error.message : error})`
+                )
             }
         }
-
-        // Sort by most recent first
-        return Array.from(groupMap.values()).sort((a, b) => {
-            const timeA = a.lastMessageAt?.getTime() || 0
-            const timeB = b.lastMessageAt?.getTime() || 0
-            return timeB - timeA
-        })
+        return this.chatDatabase
     }
 
     /**
-     * Find a group by name or partial chat ID
+     * Find a group by alias, name, partial chat ID or member handle
      * 
-     * @param search - Group name or partial chat ID to search for
+     * @param search - Group alias, name, partial chat ID or member handle to search for
      * @returns Group info or null if not found
      */
     async findGroup(search: string): Promise<GroupInfo | null> {
         const groups = await this.listGroups()
 
+        // Aliases from the groups config resolve to an exact chat ID
+        const alias = this.groups.get(search)
+        if (alias) {
+            const aliased = groups.find(g => g.chatId === alias.chatId)
+            if (aliased) return aliased
+        }
+
         // Try exact match first
         const exact = groups.find(g => 
             g.chatId === search || 
@@ -261,12 +390,94 @@ export class IMessageClient {
         // Try partial match
         const partial = groups.find(g =>
             g.chatId.toLowerCase().includes(search.toLowerCase()) ||
-            g.name.toLowerCase().includes(search.toLowerCase())
+            g.name.toLowerCase().includes(search.toLowerCase()) ||
+            g.members.some(m => m.toLowerCase().includes(search.toLowerCase()))
         )
 
         return partial || null
     }
 
+    /**
+     * List all group chats (MessagingTransport)
+     */
+    async listChats(): Promise<GroupInfo[]> {
+        return this.listGroups()
+    }
+
+    /**
+     * Watch incoming messages from all chats
+     * 
+     * The SDK watcher is shared: it starts with the first handler and
+     * stops when the last handler is removed.
+     * 
+     * @param handler - Called for every new message
+     * @returns Function that removes the handler
+     */
+    async watch(handler: MessageHandler): Promise<() => void> {
+        this.handlers.add(handler)
+
+        if (!this.watching) {
+            // Set before awaiting so concurrent calls don't start a second watcher
+            this.watching = true
+            try {
+                await this.sdk.startWatching({
+                    onNewMessage: (message) => this.dispatch(message),
+                    onGroupMessage: (message) => this.dispatch(message)
+                })
+            } catch (error) {
+                this.handlers.delete(handler)
+                this.watching = false
+                throw error
+            }
+        }
+
+        return () => {
+            this.handlers.delete(handler)
+            if (this.handlers.size === 0 && this.watching) {
+                this.sdk.stopWatching()
+                this.watching = false
+            }
+        }
+    }
+
+    private async dispatch(message: Message): Promise<void> {
+        const incoming: IncomingMessage = {
+            id: message.guid || message.id,
+            chatId: message.chatId,
+            sender: message.sender || 'user',
+            text: message.text || '',
+            isFromMe: message.isFromMe,
+            date: message.date
+        }
+
+        const { reaction, replyTo } = this.findMetadata(incoming)
+        if (reaction) incoming.reaction = reaction
+        if (replyTo) incoming.replyTo = replyTo
+
+        for (const handler of this.handlers) {
+            await handler(incoming)
+        }
+    }
+
+    /**
+     * Tapbacks and threaded replies arrive from the watcher as plain messages;
+     * chat.db knows what they point at. Without database access, fall back to
+     * recognising tapbacks by their text.
+     */
+    private findMetadata(message: IncomingMessage): Pick<IncomingMessage, 'reaction' | 'replyTo'> {
+        try {
+            const stored = this.getChatDatabase().getMessage(message.id)
+            if (stored) {
+                return { reaction: stored.reaction, replyTo: stored.replyTo }
+            }
+        } catch (error) {
+            if (this.debug) {
+                console.log(`⚠️  Could not read message details: ${error instanceof Error ? error.message : error}`)
+            }
+        }
+        return { reaction: parseReactionText(message.text) ?? undefined }
+    }
+
     /**
      * Get groups with unread messages
      * 
@@ -282,6 +493,10 @@ export class IMessageClient {
      */
     async close(): Promise<void> {
         if (this.initialized) {
+            this.handlers.clear()
+            this.watching = false
+            this.chatDatabase?.close()
+            this.chatDatabase = undefined
             await this.sdk.close()
             this.initialized = false
             console.log('✅ Client closed')
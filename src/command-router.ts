@@ -0,0 +1,289 @@
+import type { IncomingMessage, MessagingTransport } from './transport.js'
+import { MessageBus } from './message-bus.js'
+
+export interface CommandContext {
+    /** Command name as registered (aliases resolved) */
+    name: string
+    /** Arguments split on whitespace; quoted text stays together */
+    args: string[]
+    /** Everything after the command name, untouched */
+    rawArgs: string
+    chatId: string
+    sender: string
+    message: IncomingMessage
+    /** Reply in the chat the command came from */
+    reply: (text: string) => Promise<void>
+}
+
+/**
+ * Who may run a command:
+ * - everyone: anyone in the chat (default)
+ * - participants: configured participants and admins
+ * - admins: configured admins only
+ * - a function for anything else
+ */
+export type CommandPermission =
+    | 'everyone'
+    | 'participants'
+    | 'admins'
+    | ((sender: string, chatId: string) => boolean)
+
+export interface CommandDefinition {
+    /** Name without the prefix, e.g. "pick" */
+    name: string
+    description: string
+    /** Argument synopsis shown in help, e.g. "<option number>" */
+    usage?: string
+    aliases?: string[]
+    minArgs?: number
+    maxArgs?: number
+    permission?: CommandPermission
+    handler: (context: CommandContext) => void | Promise<void>
+}
+
+export interface CommandRouterConfig {
+    /** Command prefix (default: "/") */
+    prefix?: string
+    /** Handles allowed to run "participants" commands */
+    participants?: string[]
+    /** Handles allowed to run "admins" commands */
+    admins?: string[]
+    /** Only listen in these chats (default: all chats) */
+    chatIds?: string[]
+}
+
+export interface ParsedCommand {
+    name: string
+    args: string[]
+    rawArgs: string
+}
+
+/**
+ * Command Router - Slash commands typed in the group chat
+ *
+ * Only messages naming a registered command are handled; everything else
+ * (including unknown "/words") is left for normal question/answer flows.
+ * A built-in /help lists the commands the sender may run.
+ *
+ * Usage:
+ *   const router = new CommandRouter(client, { admins: ['+15550000001'] })
+ *   router.register({
+ *       name: 'ping',
+ *       description: 'Check the bot is alive',
+ *       handler: ctx => ctx.reply('🏓 pong')
+ *   })
+ *   await router.start()
+ */
+export class CommandRouter {
+    private transport: MessagingTransport
+    private prefix: string
+    private participants: Set<string>
+    private admins: Set<string>
+    private chatIds?: Set<string>
+    private commands: Map<string, CommandDefinition> = new Map()
+    private aliases: Map<string, string> = new Map()
+    private stopWatching?: () => void
+
+    constructor(transport: MessagingTransport, config: CommandRouterConfig = {}) {
+        this.transport = transport
+        this.prefix = config.prefix ?? '/'
+        this.admins = new Set(config.admins ?? [])
+        this.participants = new Set([...(config.participants ?? []), ...this.admins])
+        this.chatIds = config.chatIds ? new Set(config.chatIds) : undefined
+
+        this.register({
+            name: 'help',
+            description: 'List commands, or show help for one command',
+            usage: '[command]',
+            maxArgs: 1,
+            handler: ctx => ctx.reply(this.helpText(ctx.sender, ctx.chatId, ctx.args[0]))
+        })
+    }
+
+    /**
+     * Register a command
+     * Throws if the name or one of its aliases is already taken.
+     */
+    register(command: CommandDefinition): this {
+        const names = [command.name, ...(command.aliases ?? [])].map(n => n.toLowerCase())
+        for (const name of names) {
+            if (this.resolveName(name)) {
+                throw new Error(`Command ${this.prefix}${name} is already registered`)
+            }
+        }
+
+        this.commands.set(command.name.toLowerCase(), command)
+        for (const alias of command.aliases ?? []) {
+            this.aliases.set(alias.toLowerCase(), command.name.toLowerCase())
+        }
+        return this
+    }
+
+    /**
+     * Remove a command and its aliases
+     */
+    unregister(name: string): boolean {
+        const key = this.resolveName(name.toLowerCase())
+        if (!key) return false
+
+        this.commands.delete(key)
+        for (const [alias, target] of this.aliases) {
+            if (target === key) this.aliases.delete(alias)
+        }
+        return true
+    }
+
+    /**
+     * Split "/pick 2" into name and arguments
+     * Returns null for text that doesn't start with the prefix and a word.
+     */
+    parse(text: string): ParsedCommand | null {
+        const trimmed = text.trim()
+        if (!trimmed.startsWith(this.prefix)) return null
+
+        const match = trimmed.slice(this.prefix.length).match(/^([A-Za-z][\w-]*)(?:\s+([\s\S]*))?$/)
+        if (!match) return null
+
+        const rawArgs = (match[2] ?? '').trim()
+        const args = Array.from(rawArgs.matchAll(/"([^"]*)"|“([^”]*)”|(\S+)/g))
+            .map(m => m[1] ?? m[2] ?? m[3])
+
+        return { name: match[1].toLowerCase(), args, rawArgs }
+    }
+
+    /**
+     * Whether a message is a registered command (and so not an answer)
+     */
+    isCommand(text: string): boolean {
+        const parsed = this.parse(text)
+        return parsed !== null && this.resolveName(parsed.name) !== null
+    }
+
+    /**
+     * Run the command in a message, if there is one
+     *
+     * @returns true if the message was a registered command
+     */
+    async handle(message: IncomingMessage): Promise<boolean> {
+        if (message.isFromMe || message.reaction) return false
+        if (this.chatIds && !this.chatIds.has(message.chatId)) return false
+
+        const parsed = this.parse(message.text)
+        const key = parsed && this.resolveName(parsed.name)
+        if (!parsed || !key) return false
+
+        const command = this.commands.get(key)!
+        const reply = (text: string) => this.transport.send(message.chatId, text)
+        const label = `${this.prefix}${command.name}`
+
+        // Error replies are best effort: a failed send is logged, not thrown
+        const notify = async (text: string) => {
+            try {
+                await reply(text)
+            } catch (error) {
+                console.error(`❌ Could not reply to ${label}:`, error)
+            }
+        }
+
+        console.log(`⌨️  ${message.sender}: ${label} ${parsed.rawArgs}`.trimEnd())
+
+        if (!this.isAllowed(command, message.sender, message.chatId)) {
+            await notify(`🚫 You don't have permission to use ${label}`)
+            return true
+        }
+
+        const tooFew = command.minArgs !== undefined && parsed.args.length < command.minArgs
+        const tooMany = command.maxArgs !== undefined && parsed.args.length > command.maxArgs
+        if (tooFew || tooMany) {
+            await notify(`⚠️  Usage: ${this.usageLine(command)}`)
+            return true
+        }
+
+        try {
+            await command.handler({
+                name: command.name,
+                args: parsed.args,
+                rawArgs: parsed.rawArgs,
+                chatId: message.chatId,
+                sender: message.sender,
+                message,
+                reply
+            })
+        } catch (error) {
+            console.error(`❌ ${label} failed:`, error)
+            await notify(`❌ ${label} failed: ${error instanceof Error ? error.message : error}`)
+        }
+        return true
+    }
+
+    /**
+     * Start handling commands from the transport
+     * Handlers run in the background so a long command (like /plan) doesn't
+     * hold up delivery of the replies it is waiting for.
+     */
+    async start(): Promise<void> {
+        if (this.stopWatching) return
+        this.stopWatching = await MessageBus.shared(this.transport).subscribe(null, message => {
+            this.handle(message).catch(error => console.error('❌ Command handling failed:', error))
+        })
+    }
+
+    /**
+     * Stop handling commands; the transport stays open
+     */
+    stop(): void {
+        this.stopWatching?.()
+        this.stopWatching = undefined
+    }
+
+    /**
+     * Help for one command, or the list of commands the sender may run
+     */
+    helpText(sender: string, chatId: string, commandName?: string): string {
+        if (commandName) {
+            const key = this.resolveName(commandName.replace(this.prefix, '').toLowerCase())
+            if (!key) return `❓ Unknown command ${this.prefix}${commandName}`
+
+            const command = this.commands.get(key)!
+            const aliases = command.aliases?.length
+                ? `\nAliases: ${command.aliases.map(a => this.prefix + a).join(', ')}`
+                : ''
+            return `${this.usageLine(command)}\n${command.description}${aliases}`
+        }
+
+        const lines = Array.from(this.commands.values())
+            .filter(command => this.isAllowed(command, sender, chatId))
+            .map(command => `${this.usageLine(command)} - ${command.description}`)
+        return `🤖 COMMANDS\n\n${lines.join('\n')}`
+    }
+
+    /**
+     * Whether a handle is a configured admin
+     */
+    isAdmin(handle: string): boolean {
+        return this.admins.has(handle)
+    }
+
+    private usageLine(command: CommandDefinition): string {
+        return `${this.prefix}${command.name}${command.usage ? ` ${command.usage}` : ''}`
+    }
+
+    private resolveName(name: string): string | null {
+        if (this.commands.has(name)) return name
+        return this.aliases.get(name) ?? null
+    }
+
+    private isAllowed(command: CommandDefinition, sender: string, chatId: string): boolean {
+        const permission = command.permission ?? 'everyone'
+        if (typeof permission === 'function') return permission(sender, chatId)
+
+        switch (permission) {
+            case 'everyone':
+                return true
+            case 'participants':
+                return this.participants.has(sender)
+            case 'admins':
+                return this.admins.has(sender)
+        }
+    }
+}
@@ -0,0 +1,145 @@
+import Database from 'better-sqlite3'
+import { existsSync, mkdirSync, rmSync } from 'fs'
+import { dirname } from 'path'
+
+const MAC_EPOCH_MS = Date.UTC(2001, 0, 1)
+
+/**
+ * Convert a Date to a chat.db timestamp (nanoseconds since 2001-01-01)
+ */
+export function toMacTimestamp(date: Date): number {
+    return (date.getTime() - MAC_EPOCH_MS) * 1e6
+}
+
+export interface FixtureMessage {
+    chatId: string
+    sender: string | null  // null = sent by me
+    text: string
+    date: Date
+    isRead?: boolean
+    /** Make this a tapback: associated_message_type (2000-2005, 3000-3005) on another message's guid */
+    reaction?: { code: number; targetGuid: string }
+    /** Make this a threaded reply to another message's guid */
+    replyToGuid?: string
+}
+
+/**
+ * Build a small Messages database (same tables and columns as chat.db)
+ * so chat.db logic can be run on machines without iMessage.
+ *
+ * Contents:
+ * - "Weekend Crew" (chat100000000000000001): 3 members, 2 unread
+ * - Unnamed group (chat100000000000000002): 4 members, all read
+ * - 1:1 chat with +15550000001
+ *
+ * Messages get GUIDs fixture-message-1, fixture-message-2, ... in order.
+ *
+ * @param path - Where to write the database (replaced if it exists)
+ * @param extraMessages - Additional messages appended after the defaults
+ */
+export function createChatDbFixture(path: string, extraMessages: FixtureMessage[] = []): string {
+    mkdirSync(dirname(path), { recursive: true })
+    if (existsSync(path)) rmSync(path)
+
+    const db = new Database(path)
+    db.exec(`
+        CREATE TABLE handle (
+            ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+            id TEXT NOT NULL,
+            service TEXT NOT NULL DEFAULT 'iMessage'
+        );
+        CREATE TABLE chat (
+            ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+            guid TEXT UNIQUE NOT NULL,
+            style INTEGER,
+            chat_identifier TEXT,
+            service_name TEXT,
+            display_name TEXT
+        );
+        CREATE TABLE message (
+            ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+            guid TEXT UNIQUE NOT NULL,
+            text TEXT,
+            attributedBody BLOB,
+            handle_id INTEGER DEFAULT 0,
+            service TEXT,
+            date INTEGER,
+            is_from_me INTEGER DEFAULT 0,
+            is_read INTEGER DEFAULT 0,
+            associated_message_guid TEXT,
+            associated_message_type INTEGER DEFAULT 0,
+            thread_originator_guid TEXT,
+            cache_has_attachments INTEGER DEFAULT 0
+        );
+        CREATE TABLE chat_handle_join (chat_id INTEGER, handle_id INTEGER, UNIQUE(chat_id, handle_id));
+        CREATE TABLE chat_message_join (chat_id INTEGER, message_id INTEGER, message_date INTEGER DEFAULT 0, PRIMARY KEY (chat_id, message_id));
+    `)
+
+    const handles = ['+15550000001', '+15550000002', '+15550000003', 'sam@example.com']
+    const handleIds = new Map<string, number>()
+    const insertHandle = db.prepare('INSERT INTO handle (id) VALUES (?)')
+    for (const handle of handles) {
+        handleIds.set(handle, Number(insertHandle.run(handle).lastInsertRowid))
+    }
+
+    const chats = [
+        { chatId: 'chat100000000000000001', style: 43, name: 'Weekend Crew', members: handles.slice(0, 3) },
+        { chatId: 'chat100000000000000002', style: 43, name: '', members: handles },
+        { chatId: '+15550000001', style: 45, name: '', members: handles.slice(0, 1) }
+    ]
+
+    const chatRowIds = new Map<string, number>()
+    const insertChat = db.prepare(`
+        INSERT INTO chat (guid, style, chat_identifier, service_name, display_name)
+        VALUES (?, ?, ?, 'iMessage', ?)
+    `)
+    const insertMember = db.prepare('INSERT INTO chat_handle_join (chat_id, handle_id) VALUES (?, ?)')
+    for (const chat of chats) {
+        const separator = chat.style === 43 ? '+' : '-'
+        const rowId = Number(insertChat.run(`iMessage;${separator};${chat.chatId}`, chat.style, chat.chatId, chat.name).lastInsertRowid)
+        chatRowIds.set(chat.chatId, rowId)
+        for (const member of chat.members) {
+            insertMember.run(rowId, handleIds.get(member))
+        }
+    }
+
+    const base = Date.UTC(2025, 5, 6, 18, 0, 0)
+    const minutes = (n: number) => new Date(base + n * 60000)
+    const messages: FixtureMessage[] = [
+        { chatId: 'chat100000000000000002', sender: 'sam@example.com', text: 'Anyone up for hiking?', date: minutes(0), isRead: true },
+        { chatId: 'chat100000000000000002', sender: null, text: 'Count me in', date: minutes(5), isRead: true },
+        { chatId: 'chat100000000000000002', sender: 'sam@example.com', text: 'Can we keep the budget under $60, "gas included"?', date: minutes(8), isRead: true },
+        { chatId: 'chat100000000000000001', sender: null, text: "What's your budget per person?", date: minutes(30), isRead: true },
+        { chatId: 'chat100000000000000001', sender: '+15550000001', text: 'MEDIUM', date: minutes(31), isRead: true },
+        { chatId: 'chat100000000000000001', sender: '+15550000002', text: 'low please', date: minutes(33) },
+        { chatId: 'chat100000000000000001', sender: '+15550000003', text: 'whatever works', date: minutes(34) },
+        { chatId: '+15550000001', sender: '+15550000001', text: 'See you Saturday', date: minutes(40) },
+        ...extraMessages
+    ]
+
+    const insertMessage = db.prepare(`
+        INSERT INTO message (guid, text, handle_id, service, date, is_from_me, is_read, associated_message_guid, associated_message_type, thread_originator_guid)
+        VALUES (?, ?, ?, 'iMessage', ?, ?, ?, ?, ?, ?)
+    `)
+    const linkMessage = db.prepare('INSERT INTO chat_message_join (chat_id, message_id, message_date) VALUES (?, ?, ?)')
+
+    messages.forEach((message, i) => {
+        const date = toMacTimestamp(message.date)
+        const isFromMe = message.sender === null
+        const rowId = Number(insertMessage.run(
+            `fixture-message-${i + 1}`,
+            message.text,
+            isFromMe ? 0 : handleIds.get(message.sender!) ?? 0,
+            date,
+            isFromMe ? 1 : 0,
+            isFromMe || message.isRead ? 1 : 0,
+            message.reaction ? `p:0/${message.reaction.targetGuid}` : null,
+            message.reaction?.code ?? 0,
+            message.replyToGuid ?? null
+        ).lastInsertRowid)
+        linkMessage.run(chatRowIds.get(message.chatId), rowId, date)
+    })
+
+    db.close()
+    return path
+}
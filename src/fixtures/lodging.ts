@@ -0,0 +1,133 @@
+import { countNights, type LodgingOption, type LodgingProvider, type LodgingSearch, type RoomConfiguration } from '../agents/lodging-agent.js'
+
+export interface FixtureRoomType {
+    type: string
+    sleeps: number
+    pricePerNight: number
+    available: number
+}
+
+export interface FixtureListing {
+    name: string
+    type: string
+    /** Street part of the address; the searched city is appended */
+    street: string
+    description: string
+    roomTypes: FixtureRoomType[]
+    distance: string
+    cancellationPolicy: string
+    amenities: string[]
+    rating?: number
+    /** Only returned for these budgets (default: any) */
+    budgets?: ('low' | 'medium' | 'high')[]
+}
+
+/**
+ * Default listings: a hostel, a mid-range hotel, a rental house and a boutique hotel
+ */
+export const FIXTURE_LISTINGS: FixtureListing[] = [
+    {
+        name: 'Backpackers Hostel',
+        type: 'hostel',
+        street: '12 Station Rd',
+        description: 'Simple, social and close to transit',
+        roomTypes: [{ type: '6-bed dorm', sleeps: 6, pricePerNight: 180, available: 2 }],
+        distance: '1.8 mi',
+        cancellationPolicy: 'Non-refundable',
+        amenities: ['Shared kitchen', 'Lockers', 'Wi-Fi'],
+        rating: 3.9,
+        budgets: ['low', 'medium']
+    },
+    {
+        name: 'Central Hotel',
+        type: 'hotel',
+        street: '120 Main St',
+        description: 'Reliable mid-range hotel in the center',
+        roomTypes: [
+            { type: 'Queen room', sleeps: 2, pricePerNight: 160, available: 6 },
+            { type: 'Family suite', sleeps: 4, pricePerNight: 280, available: 2 }
+        ],
+        distance: '0.6 mi',
+        cancellationPolicy: 'Free cancellation up to 48 hours before check-in',
+        amenities: ['Breakfast included', 'Wi-Fi', 'Parking'],
+        rating: 4.2
+    },
+    {
+        name: 'Lakeside Rental House',
+        type: 'vacation rental',
+        street: '8 Shore Ln',
+        description: 'Whole house with a big kitchen and garden',
+        roomTypes: [{ type: '4-bedroom house', sleeps: 8, pricePerNight: 420, available: 1 }],
+        distance: '3.5 mi',
+        cancellationPolicy: 'Full refund up to 7 days before check-in',
+        amenities: ['Kitchen', 'Garden', 'Washer', 'Parking'],
+        rating: 4.7
+    },
+    {
+        name: 'The Grand Boutique',
+        type: 'hotel',
+        street: '1 Park Ave',
+        description: 'Design hotel with a rooftop bar',
+        roomTypes: [{ type: 'Deluxe king room', sleeps: 2, pricePerNight: 340, available: 4 }],
+        distance: '0.3 mi',
+        cancellationPolicy: 'Free cancellation up to 24 hours before check-in',
+        amenities: ['Rooftop bar', 'Spa', 'Wi-Fi'],
+        rating: 4.8,
+        budgets: ['medium', 'high']
+    }
+]
+
+/**
+ * The cheapest rooms of a single type that sleep the whole group, if any
+ */
+function cheapestRooms(groupSize: number, roomTypes: FixtureRoomType[]): { rooms: RoomConfiguration[]; costPerNight: number } | undefined {
+    return roomTypes
+        .map(room => ({ room, count: Math.ceil(groupSize / room.sleeps) }))
+        .filter(({ room, count }) => count <= room.available)
+        .map(({ room, count }) => ({
+            rooms: [{ type: room.type, count, sleeps: room.sleeps }],
+            costPerNight: room.pricePerNight * count
+        }))
+        .sort((a, b) => a.costPerNight - b.costPerNight)[0]
+}
+
+/**
+ * Fixture Lodging Provider - Fixed listings so lodging can be tested without a booking API
+ *
+ * Every city gets the same listings. Listings that can't sleep the whole
+ * group, or don't suit the budget, are left out.
+ *
+ * Usage:
+ *   const agent = new LodgingAgent(apiKey, new FixtureLodgingProvider())
+ */
+export class FixtureLodgingProvider implements LodgingProvider {
+    name = 'fixture'
+
+    constructor(private listings: FixtureListing[] = FIXTURE_LISTINGS) {}
+
+    async search(params: LodgingSearch): Promise<LodgingOption[]> {
+        const nights = countNights(params.checkIn, params.checkOut)
+
+        return this.listings.flatMap(listing => {
+            if (listing.budgets && params.budget && !listing.budgets.includes(params.budget)) return []
+
+            const booking = cheapestRooms(params.groupSize, listing.roomTypes)
+            if (!booking) return []
+
+            return [{
+                name: listing.name,
+                type: listing.type,
+                address: `${listing.street}, ${params.city}`,
+                description: listing.description,
+                rooms: booking.rooms,
+                nights,
+                costPerNight: booking.costPerNight,
+                estimatedCostPerPerson: booking.costPerNight * nights / params.groupSize,
+                distance: listing.distance,
+                cancellationPolicy: listing.cancellationPolicy,
+                amenities: listing.amenities,
+                rating: listing.rating
+            }]
+        })
+    }
+}
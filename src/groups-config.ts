@@ -0,0 +1,145 @@
+import { existsSync, readFileSync } from 'fs'
+import { z } from 'zod'
+import { LANGUAGES, type Language } from './i18n.js'
+
+export interface GroupDefaults {
+    homeCity?: string
+    participants?: string[]
+    /** ISO 4217 code, e.g. USD */
+    currency?: string
+    /** IANA time zone, e.g. America/Los_Angeles */
+    timeZone?: string
+    /** Language the bot writes in, e.g. es (default: en) */
+    language?: Language
+    /** Participants who prefer another language, by handle */
+    participantLanguages?: Record<string, Language>
+}
+
+export interface GroupConfig extends GroupDefaults {
+    alias: string
+    chatId: string
+}
+
+const isTimeZone = (value: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value })
+        return true
+    } catch {
+        return false
+    }
+}
+
+const GroupDefaultsSchema = z.object({
+    homeCity: z.string().min(1).optional(),
+    participants: z.array(z.string().min(1)).optional(),
+    currency: z.string().regex(/^[A-Z]{3}$/, 'Expected a 3-letter currency code like USD').optional(),
+    timeZone: z.string().refine(isTimeZone, 'Expected an IANA time zone like America/Los_Angeles').optional(),
+    language: z.enum(LANGUAGES as [Language, ...Language[]]).optional(),
+    participantLanguages: z.record(z.string(), z.enum(LANGUAGES as [Language, ...Language[]])).optional()
+})
+
+const GroupEntrySchema = z.union([
+    // Short form: "family": "chat123..."
+    z.string().min(1),
+    GroupDefaultsSchema.extend({ chatId: z.string().min(1) })
+])
+
+const GroupsFileSchema = z.object({
+    groups: z.record(z.string(), GroupEntrySchema),
+    note: z.string().optional()
+})
+
+/**
+ * Groups Config - Named group aliases with per-group defaults
+ *
+ * Reads config/groups.local.json if present, otherwise config/groups.json:
+ *
+ *   {
+ *     "groups": {
+ *       "family": { "chatId": "chat45e2...", "homeCity": "San Francisco", "currency": "USD" },
+ *       "work": "chat123abc..."
+ *     }
+ *   }
+ *
+ * Usage:
+ *   const groups = GroupsConfig.load()
+ *   await client.send(groups.resolve('family'), 'Hello!')
+ */
+export class GroupsConfig {
+    private groups: Map<string, GroupConfig>
+
+    constructor(groups: GroupConfig[] = []) {
+        this.groups = new Map(groups.map(g => [g.alias.toLowerCase(), g]))
+    }
+
+    /**
+     * Default config file: the git-ignored local copy wins over the checked-in one
+     */
+    static defaultPath(): string {
+        return existsSync('config/groups.local.json')
+            ? 'config/groups.local.json'
+            : 'config/groups.json'
+    }
+
+    /**
+     * Load and validate a groups config file
+     * A missing file gives an empty config; an invalid file throws.
+     */
+    static load(path: string = GroupsConfig.defaultPath()): GroupsConfig {
+        if (!existsSync(path)) {
+            return new GroupsConfig()
+        }
+
+        let data: unknown
+        try {
+            data = JSON.parse(readFileSync(path, 'utf-8'))
+        } catch (error) {
+            throw new Error(`Invalid JSON in ${path}: ${error instanceof Error ? error.message : error}`)
+        }
+
+        return GroupsConfig.fromObject(data, path)
+    }
+
+    /**
+     * Validate an already-parsed config object
+     */
+    static fromObject(data: unknown, source: string = 'groups config'): GroupsConfig {
+        const result = GroupsFileSchema.safeParse(data)
+        if (!result.success) {
+            const issues = result.error.issues
+                .map(issue => `   - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+                .join('\n')
+            throw new Error(`Invalid groups config in ${source}:\n${issues}`)
+        }
+
+        const groups = Object.entries(result.data.groups).map(([alias, entry]) =>
+            typeof entry === 'string'
+                ? { alias, chatId: entry }
+                : { alias, ...entry }
+        )
+        return new GroupsConfig(groups)
+    }
+
+    /**
+     * Find a group by alias (case-insensitive) or by its chat ID
+     */
+    get(aliasOrChatId: string): GroupConfig | null {
+        return this.groups.get(aliasOrChatId.toLowerCase()) ||
+            Array.from(this.groups.values()).find(g => g.chatId === aliasOrChatId) ||
+            null
+    }
+
+    /**
+     * Turn an alias into its chat ID; anything else is returned unchanged
+     */
+    resolve(aliasOrChatId: string): string {
+        return this.groups.get(aliasOrChatId.toLowerCase())?.chatId ?? aliasOrChatId
+    }
+
+    /**
+     * All configured groups
+     */
+    list(): GroupConfig[] {
+        return Array.from(this.groups.values())
+    }
+}
@@ -0,0 +1,287 @@
+export type Language = 'en' | 'es'
+
+export const LANGUAGES: Language[] = ['en', 'es']
+
+const LANGUAGE_NAMES: Record<Language, string> = {
+    en: 'English',
+    es: 'Spanish'
+}
+
+const EN = {
+    // Interactive agent
+    or: 'or',
+    replyWithNumber: 'Reply with {numbers}, or 👍 the option you want',
+    replyApproval: 'Reply with every option that works for you (e.g. "1 and 3, not 2"), or 👍 each one',
+    replyRanked: 'Reply with your ranking, favourite first (e.g. "2, 3, 1"), or 👍 options in order of preference',
+    replyYesNo: 'Reply with YES or NO (or 👍/👎 this message)',
+    noPendingQuestion: '🤷 No question is waiting for answers',
+    skipping: '⏭️  Skipping ahead with {count} answer(s)',
+    pickRange: '⚠️  Pick a number from 1 to {max}',
+    theList: 'the list',
+    pickChanged: '✏️  {sender}, your pick is now {choice}',
+    reminderGroup: '⏰ {mentions} we still need your answer to:\n\n{question}',
+    reminderDirect: '⏰ Quick reminder: the group is waiting for your answer to:\n\n{question}',
+    pollResults: '🗳️  RESULTS: {question}',
+    pollVote: 'vote',
+    pollVotes: 'votes',
+    pollApproval: 'approval',
+    pollApprovals: 'approvals',
+    pollWinner: '🏆 Winner: {option}',
+    pollTie: '🤝 Tie between {options}',
+    pollNoVotes: '🤷 No votes yet',
+    pollRounds: '(after {count} rounds of ranked-choice counting)',
+    and: 'and',
+
+    // Interactive holiday planner
+    noFreeSlots: '❌ No common free time slots found for everyone. Please adjust your date range.',
+    askDate: `🎉 Found free time slots for everyone! Let's plan something!\n\n📅 Which date works best?`,
+    dateConfirmed: '✅ Confirmed! Planning for {date} ({start} - {end})',
+    askLocation: '📍 What kind of place would you like to visit on {date}?\n\n' +
+        'Examples: outdoor park, museum, beach, shopping district, hiking trail, etc.\n\n' +
+        '⏳ Reply with your preference...',
+    askFood: '🍽️  What kind of food would you like?\n\n' +
+        'Examples: Italian, Mexican, Chinese, Japanese, American, vegetarian, etc.\n\n' +
+        '⏳ Reply with your preference...',
+    askBudget: `💰 What's your budget per person?\n\n` +
+        'Reply with: LOW ({low}), MEDIUM ({medium}), or HIGH ({high})\n\n' +
+        '⏳ Reply with your budget...',
+    planning: '⏳ Great! Planning your perfect outing based on your preferences...\n\nThis will take a moment...',
+    timelineIntro: `📅 POTENTIAL TIMELINE\n\nBased on your preferences, here's the plan:`,
+    timelineReview: '⏳ Please review and let us know if this works...',
+    askTimeline: '\n✅ Does this timeline work for everyone?\n\n' +
+        'Reply YES to confirm or NO if you need changes.\n\n' +
+        '⏳ Waiting for your responses...',
+    adjustmentsFromRequests: '📝 Got it! The timeline needs adjustments:',
+    adjustmentsNeeded: '📝 Got it! The timeline needs adjustments.\n\n' +
+        'What would you like to change? (location, restaurant, transportation, or date)',
+    askAdjustments: '💬 Please tell us what needs to change...',
+    finalPlanTitle: '🎉 FINAL PLAN - CONFIRMED!',
+    finalPlanApproved: '✅ The group has approved this timeline!\n' +
+        '📅 Mark your calendars!\n' +
+        'See you all on {date}! 🙌',
+    notedRequests: `📝 Noted these requests - I'll keep them in mind:`,
+    topicDate: 'date',
+    topicLocation: 'location',
+    topicFood: 'food',
+    topicBudget: 'budget',
+    topicRestaurant: 'restaurant',
+    topicTransport: 'transport',
+    topicCost: 'cost per person',
+    revising: '🔧 Revising the {components}...',
+    revisedPlan: '📝 REVISED PLAN (round {round} of {max})',
+    revisionChanges: 'What changed:',
+    revisionNoChanges: '🤷 The search came back with the same plan.',
+    revisionUnclear: `🤔 I couldn't tell which part of the plan to change. Let's sort it out in the chat!`,
+    revisionLimit: `🛑 Still no agreement after {rounds} revision(s). Let's sort it out in the chat!`,
+    askOtherDate: '📅 Which of these dates works better?',
+    noOtherDates: '📅 There are no other dates that work for everyone, so the date stays the same.',
+    usingDefaults: `⏩ No {topic} answers yet, so I'll go with sensible defaults`,
+    goingAheadWithout: '⏩ Going ahead without {topic} answers from {names}',
+    statusWaiting: '⏳ Waiting for answers ({count} so far)',
+    cancelled: '🛑 Planning cancelled',
+    notPlanning: '🤷 Nothing is being planned in this chat'
+}
+
+export type MessageKey = keyof typeof EN
+
+const MESSAGES: Record<Language, Record<MessageKey, string>> = {
+    en: EN,
+    es: {
+        or: 'o',
+        replyWithNumber: 'Responde con {numbers}, o dale 👍 a la opción que prefieras',
+        replyApproval: 'Responde con todas las opciones que te vengan bien (p. ej. "1 y 3, no 2"), o dale 👍 a cada una',
+        replyRanked: 'Responde con tu orden de preferencia, la favorita primero (p. ej. "2, 3, 1"), o dale 👍 a las opciones en ese orden',
+        replyYesNo: 'Responde SÍ o NO (o 👍/👎 a este mensaje)',
+        noPendingQuestion: '🤷 No hay ninguna pregunta esperando respuestas',
+        skipping: '⏭️  Seguimos adelante con {count} respuesta(s)',
+        pickRange: '⚠️  Elige un número del 1 al {max}',
+        theList: 'la lista',
+        pickChanged: '✏️  {sender}, ahora tu elección es {choice}',
+        reminderGroup: '⏰ {mentions} todavía necesitamos tu respuesta a:\n\n{question}',
+        reminderDirect: '⏰ Recordatorio: el grupo está esperando tu respuesta a:\n\n{question}',
+        pollResults: '🗳️  RESULTADOS: {question}',
+        pollVote: 'voto',
+        pollVotes: 'votos',
+        pollApproval: 'aprobación',
+        pollApprovals: 'aprobaciones',
+        pollWinner: '🏆 Ganadora: {option}',
+        pollTie: '🤝 Empate entre {options}',
+        pollNoVotes: '🤷 Todavía no hay votos',
+        pollRounds: '(tras {count} rondas de voto preferencial)',
+        and: 'y',
+
+        noFreeSlots: '❌ No encontré ningún hueco libre para todos. Prueba con otras fechas.',
+        askDate: '🎉 ¡Hay huecos libres para todos! ¡Vamos a planear algo!\n\n📅 ¿Qué fecha os viene mejor?',
+        dateConfirmed: '✅ ¡Confirmado! Planeando para el {date} ({start} - {end})',
+        askLocation: '📍 ¿Qué tipo de sitio os gustaría visitar el {date}?\n\n' +
+            'Ejemplos: parque, museo, playa, zona de tiendas, ruta de senderismo, etc.\n\n' +
+            '⏳ Responde con tu preferencia...',
+        askFood: '🍽️  ¿Qué tipo de comida os apetece?\n\n' +
+            'Ejemplos: italiana, mexicana, china, japonesa, americana, vegetariana, etc.\n\n' +
+            '⏳ Responde con tu preferencia...',
+        askBudget: '💰 ¿Cuál es vuestro presupuesto por persona?\n\n' +
+            'Responde con: BAJO ({low}), MEDIO ({medium}) o ALTO ({high})\n\n' +
+            '⏳ Responde con tu presupuesto...',
+        planning: '⏳ ¡Genial! Preparando el plan perfecto según vuestras preferencias...\n\nTardará un momento...',
+        timelineIntro: '📅 PLAN PROPUESTO\n\nSegún vuestras preferencias, este es el plan:',
+        timelineReview: '⏳ Revisadlo y decidnos si os viene bien...',
+        askTimeline: '\n✅ ¿Os viene bien este plan a todos?\n\n' +
+            'Responde SÍ para confirmar o NO si hace falta cambiar algo.\n\n' +
+            '⏳ Esperando vuestras respuestas...',
+        adjustmentsFromRequests: '📝 ¡Entendido! Hay que ajustar el plan:',
+        adjustmentsNeeded: '📝 ¡Entendido! Hay que ajustar el plan.\n\n' +
+            '¿Qué os gustaría cambiar? (sitio, restaurante, transporte o fecha)',
+        askAdjustments: '💬 Contadnos qué hay que cambiar...',
+        finalPlanTitle: '🎉 PLAN FINAL - ¡CONFIRMADO!',
+        finalPlanApproved: '✅ ¡El grupo ha aprobado el plan!\n' +
+            '📅 ¡Apuntadlo en el calendario!\n' +
+            '¡Nos vemos el {date}! 🙌',
+        notedRequests: '📝 Apunto estas peticiones para tenerlas en cuenta:',
+        topicDate: 'fecha',
+        topicLocation: 'sitio',
+        topicFood: 'comida',
+        topicBudget: 'presupuesto',
+        topicRestaurant: 'restaurante',
+        topicTransport: 'transporte',
+        topicCost: 'coste por persona',
+        revising: '🔧 Revisando {components}...',
+        revisedPlan: '📝 PLAN REVISADO (ronda {round} de {max})',
+        revisionChanges: 'Qué ha cambiado:',
+        revisionNoChanges: '🤷 La búsqueda ha devuelto el mismo plan.',
+        revisionUnclear: '🤔 No he sabido qué parte del plan cambiar. ¡Lo hablamos por el chat!',
+        revisionLimit: '🛑 Seguimos sin acuerdo tras {rounds} revisión(es). ¡Lo hablamos por el chat!',
+        askOtherDate: '📅 ¿Cuál de estas fechas os viene mejor?',
+        noOtherDates: '📅 No hay otras fechas que vengan bien a todos, así que la fecha se queda igual.',
+        usingDefaults: '⏩ Todavía no hay respuestas sobre {topic}, así que elegiré opciones razonables',
+        goingAheadWithout: '⏩ Seguimos sin las respuestas sobre {topic} de {names}',
+        statusWaiting: '⏳ Esperando respuestas ({count} hasta ahora)',
+        cancelled: '🛑 Planificación cancelada',
+        notPlanning: '🤷 No se está planeando nada en este chat'
+    }
+}
+
+/**
+ * Values for a template's {placeholders}; a function gives a value per language
+ */
+export type MessageVars = Record<string, string | number | ((language: Language) => string)>
+
+export interface LanguageSettings {
+    /** Language of the group chat (default: en) */
+    group?: Language
+    /** Participants who prefer another language; group messages then include it too */
+    participants?: Record<string, Language>
+}
+
+// Common words and characters that give a language away in short chat replies
+const MARKERS: Record<Language, RegExp[]> = {
+    en: [
+        /\b(the|and|is|are|i|i'm|we|you|it|want|like|would|please|thanks|yes|sounds|good|with|for|not|maybe|food|place|cheap)\b/gi
+    ],
+    es: [
+        /[¿¡ñáéíóú]/gi,
+        /\b(el|la|los|las|un|una|y|es|son|yo|quiero|quiere|me|gusta|gustaría|por|para|favor|gracias|sí|si|vale|pero|muy|bueno|comida|sitio|barato|mejor|prefiero|nosotros|también|algo|tal|vez|mañana)\b/gi
+    ]
+}
+
+/**
+ * Guess the language of a chat message
+ *
+ * @returns null when there's too little to go on (e.g. "2" or "👍")
+ */
+export function detectLanguage(text: string): Language | null {
+    const scores = LANGUAGES.map(language => ({
+        language,
+        score: MARKERS[language].reduce((sum, marker) => sum + (text.match(marker)?.length ?? 0), 0)
+    })).sort((a, b) => b.score - a.score)
+
+    if (scores[0].score === 0 || scores[0].score === scores[1].score) return null
+    return scores[0].language
+}
+
+export function languageName(language: Language): string {
+    return LANGUAGE_NAMES[language]
+}
+
+/**
+ * A price in a currency, e.g. "$12.50" or "€12.50"
+ *
+ * @param currency ISO 4217 code (default: USD)
+ */
+export function formatMoney(amount: number, currency: string = 'USD'): string {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+}
+
+/**
+ * One message template in one language
+ */
+export function translate(language: Language, key: MessageKey, vars: MessageVars = {}): string {
+    const template = MESSAGES[language][key] ?? MESSAGES.en[key]
+    return template.replace(/\{(\w+)\}/g, (match, name) => {
+        if (!(name in vars)) return match
+        const value = vars[name]
+        return typeof value === 'function' ? value(language) : String(value)
+    })
+}
+
+/**
+ * Translator - Renders message templates for a group
+ *
+ * When participants prefer different languages, group messages carry each
+ * translation, group language first.
+ *
+ * Usage:
+ *   const i18n = new Translator({ group: 'en', participants: { '+34600000000': 'es' } })
+ *   await client.send(chatId, i18n.t('askFood'))
+ */
+export class Translator {
+    /** The group's own language, for long messages that aren't repeated per language */
+    readonly language: Language
+    private participants: Record<string, Language>
+
+    constructor(settings: LanguageSettings = {}) {
+        this.language = settings.group ?? 'en'
+        this.participants = { ...settings.participants }
+    }
+
+    /**
+     * Every language group messages are written in, group language first
+     */
+    languages(): Language[] {
+        return [this.language, ...Object.values(this.participants)]
+            .filter((language, i, all) => all.indexOf(language) === i)
+    }
+
+    /**
+     * A participant's preferred language, else `fallback` (e.g. the language
+     * they were seen writing in), else the group's
+     */
+    languageOf(participant: string, fallback?: Language): Language {
+        return this.participants[participant] ?? fallback ?? this.language
+    }
+
+    /**
+     * A message for the group, in every language in use
+     */
+    t(key: MessageKey, vars: MessageVars = {}): string {
+        return this.languages()
+            .map(language => this.in(language, key, vars))
+            .join('\n\n')
+    }
+
+    /**
+     * A message in one language
+     */
+    in(language: Language, key: MessageKey, vars: MessageVars = {}): string {
+        return translate(language, key, vars)
+    }
+
+    /**
+     * "1, 2, or 3" / "1, 2 o 3"
+     */
+    list(language: Language, items: string[], conjunction: 'or' | 'and'): string {
+        const word = this.in(language, conjunction)
+        if (items.length <= 2) return items.join(` ${word} `)
+        const separator = language === 'en' ? `, ${word} ` : ` ${word} `
+        return `${items.slice(0, -1).join(', ')}${separator}${items[items.length - 1]}`
+    }
+}
@@ -11,5 +11,50 @@
  * ```
  */
 
-export { IMessageClient } from './client.js'
-export type { IMessageConfig, SendOptions, GroupInfo } from './client.js'
+export { IMessageClient, AttachmentSendError } from './client.js'
+export type { IMessageConfig, SendOptions, GroupInfo, AttachmentFailure } from './client.js'
+export type {
+    MessagingTransport,
+    MessageHandler,
+    IncomingMessage,
+    MessageReaction,
+    MessageReference,
+    ReactionType
+} from './transport.js'
+export { parseReactionText, isReactionTo, isReferenceTo } from './reactions.js'
+
+export { MessageBus } from './message-bus.js'
+export type { MessageBusConfig, SubscribeOptions } from './message-bus.js'
+
+export { InMemoryTransport } from './memory-transport.js'
+export type { SimulatedMember, SimulatedReaction, SentMessage } from './memory-transport.js'
+
+export { OutboundQueue } from './outbound-queue.js'
+export type { OutboundQueueConfig, QueuedMessage, QueuedMessageStatus } from './outbound-queue.js'
+
+export { MessageScheduler } from './scheduler.js'
+export type { SchedulerConfig, ScheduledMessage, ScheduledMessageStatus } from './scheduler.js'
+
+export { CommandRouter } from './command-router.js'
+export type {
+    CommandContext,
+    CommandDefinition,
+    CommandPermission,
+    CommandRouterConfig,
+    ParsedCommand
+} from './command-router.js'
+
+export { splitMessage } from './message-splitter.js'
+export type { SplitOptions } from './message-splitter.js'
+
+export { ChatDatabase } from './chat-database.js'
+export type { MessageSearch } from './chat-database.js'
+export { formatTranscript } from './chat-export.js'
+export type { ExportFormat } from './chat-export.js'
+export { createChatDbFixture } from './fixtures/chat-db.js'
+
+export { Translator, translate, detectLanguage, languageName, formatMoney, LANGUAGES } from './i18n.js'
+export type { Language, LanguageSettings, MessageKey, MessageVars } from './i18n.js'
+
+export { GroupsConfig } from './groups-config.js'
+export type { GroupConfig, GroupDefaults } from './groups-config.js'
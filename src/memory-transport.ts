@@ -0,0 +1,203 @@
+import type {
+    GroupInfo,
+    IncomingMessage,
+    MessageHandler,
+    MessageReference,
+    MessagingTransport,
+    ReactionType,
+    SendOptions
+} from './transport.js'
+
+/** Tapback the bot message instead of replying */
+export interface SimulatedReaction {
+    react: ReactionType
+}
+
+type SimulatedReply = string | SimulatedReaction | null
+
+export interface SimulatedMember {
+    handle: string
+    /** Reply to a bot message, tapback it with { react: 'like' }, or null to stay quiet */
+    respond: (text: string, chatId: string) => SimulatedReply | Promise<SimulatedReply>
+    /** Delay before the reply arrives, in ms (default: 50) */
+    delay?: number
+}
+
+export interface SentMessage {
+    chatId: string
+    text: string
+    images: string[]
+    files: string[]
+    sentAt: Date
+}
+
+/**
+ * In-Memory Transport - Simulated group chats for running planning sessions
+ * without iMessage (e.g. on Linux CI)
+ *
+ * Usage:
+ *   const transport = new InMemoryTransport()
+ *   transport.addGroup('chat-test', 'Weekend Crew', [
+ *     { handle: '+15550001', respond: text => text.includes('1, 2, or 3') ? '2' : null }
+ *   ])
+ *   const agent = new InteractiveAgent(apiKey, 'chat-test', ['+15550001'], transport)
+ */
+export class InMemoryTransport implements MessagingTransport {
+    readonly sent: SentMessage[] = []
+    private handlers: Set<MessageHandler> = new Set()
+    private groups: Map<string, GroupInfo> = new Map()
+    private members: Map<string, SimulatedMember[]> = new Map()
+    private timers: Set<NodeJS.Timeout> = new Set()
+    private nextId: number = 1
+
+    /**
+     * Register a group chat with optional simulated members
+     */
+    addGroup(chatId: string, name: string, members: SimulatedMember[] = []): void {
+        this.groups.set(chatId, {
+            chatId,
+            name,
+            members: members.map(m => m.handle),
+            createdAt: new Date(),
+            lastMessageAt: null,
+            unreadCount: 0
+        })
+        this.members.set(chatId, [...members])
+    }
+
+    /**
+     * Add a simulated member to an existing group
+     */
+    addMember(chatId: string, member: SimulatedMember): void {
+        const members = this.members.get(chatId) || []
+        members.push(member)
+        this.members.set(chatId, members)
+        this.groups.get(chatId)?.members.push(member.handle)
+    }
+
+    async send(chatId: string, message: string | SendOptions): Promise<void> {
+        const options = typeof message === 'string' ? { text: message } : message
+        const sent: SentMessage = {
+            chatId,
+            text: options.text || '',
+            images: options.images || [],
+            files: options.files || [],
+            sentAt: new Date()
+        }
+        this.sent.push(sent)
+        this.touch(chatId, sent.sentAt)
+
+        for (const member of this.members.get(chatId) || []) {
+            const reply = await member.respond(sent.text, chatId)
+            if (reply === null) continue
+
+            const timer = setTimeout(() => {
+                this.timers.delete(timer)
+                void (typeof reply === 'string'
+                    ? this.receive(chatId, member.handle, reply)
+                    : this.react(chatId, member.handle, reply.react, sent.text))
+            }, member.delay ?? 50)
+            this.timers.add(timer)
+        }
+    }
+
+    /**
+     * Deliver an incoming message to all watchers, as if a member sent it
+     *
+     * @param replyToText - Send as a threaded reply to the message with this text
+     */
+    async receive(chatId: string, sender: string, text: string, replyToText?: string): Promise<IncomingMessage> {
+        const message: IncomingMessage = {
+            id: `mem-${this.nextId++}`,
+            chatId,
+            sender,
+            text,
+            isFromMe: false,
+            date: new Date()
+        }
+        if (replyToText !== undefined) {
+            message.replyTo = this.reference(chatId, replyToText)
+        }
+        return this.deliver(message)
+    }
+
+    /**
+     * Deliver a tapback on an earlier message, as if a member reacted to it
+     *
+     * @param targetText - Text of the message being reacted to
+     * @param removed - True to take the tapback back
+     */
+    async react(
+        chatId: string,
+        sender: string,
+        type: ReactionType,
+        targetText: string,
+        removed: boolean = false
+    ): Promise<IncomingMessage> {
+        const message: IncomingMessage = {
+            id: `mem-${this.nextId++}`,
+            chatId,
+            sender,
+            text: '',
+            isFromMe: false,
+            date: new Date(),
+            reaction: {
+                type,
+                removed,
+                target: this.reference(chatId, targetText)
+            }
+        }
+        return this.deliver(message)
+    }
+
+    async watch(handler: MessageHandler): Promise<() => void> {
+        this.handlers.add(handler)
+        return () => {
+            this.handlers.delete(handler)
+        }
+    }
+
+    async listChats(): Promise<GroupInfo[]> {
+        return Array.from(this.groups.values()).sort((a, b) => {
+            const timeA = a.lastMessageAt?.getTime() || 0
+            const timeB = b.lastMessageAt?.getTime() || 0
+            return timeB - timeA
+        })
+    }
+
+    /**
+     * Get every message the bot sent to a chat, oldest first
+     */
+    messagesTo(chatId: string): SentMessage[] {
+        return this.sent.filter(m => m.chatId === chatId)
+    }
+
+    async close(): Promise<void> {
+        for (const timer of this.timers) {
+            clearTimeout(timer)
+        }
+        this.timers.clear()
+        this.handlers.clear()
+    }
+
+    private async deliver(message: IncomingMessage): Promise<IncomingMessage> {
+        this.touch(message.chatId, message.date)
+
+        for (const handler of this.handlers) {
+            await handler(message)
+        }
+        return message
+    }
+
+    private reference(chatId: string, text: string): MessageReference {
+        const isFromMe = this.sent.some(m => m.chatId === chatId && m.text === text)
+        return { id: '', text, isFromMe }
+    }
+
+    private touch(chatId: string, date: Date): void {
+        const group = this.groups.get(chatId)
+        if (group) {
+            group.lastMessageAt = date
+        }
+    }
+}
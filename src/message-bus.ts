@@ -0,0 +1,211 @@
+import type { IncomingMessage, MessageHandler, MessagingTransport } from './transport.js'
+
+export interface MessageBusConfig {
+    /** Messages kept per chat for replay (default: 200) */
+    bufferSize?: number
+    /** How long messages are kept for replay, in ms (default: 1 hour) */
+    bufferAge?: number
+}
+
+export interface SubscribeOptions {
+    /** Replay buffered messages sent at or after this time before live ones */
+    since?: Date
+}
+
+interface Subscriber {
+    chatId: string | null
+    handler: MessageHandler
+    /** Deliveries to this subscriber, in order */
+    queue: Promise<void>
+    active: boolean
+}
+
+const shared = new WeakMap<MessagingTransport, MessageBus>()
+
+/**
+ * Message Bus - One watcher per transport, shared by every agent, router
+ * and session that needs incoming messages
+ *
+ * The watcher starts with the first subscriber and stops when the last one
+ * leaves. Messages are buffered per chat, so a subscriber that starts
+ * listening a moment late (e.g. after sending its question) can replay what
+ * it missed. Each subscriber gets messages in order, without waiting on the
+ * others.
+ *
+ * Usage:
+ *   const bus = MessageBus.shared(client)
+ *   const unsubscribe = await bus.subscribe('chat123', message => console.log(message.text))
+ */
+export class MessageBus {
+    private transport: MessagingTransport
+    private bufferSize: number
+    private bufferAge: number
+    private buffers: Map<string, IncomingMessage[]> = new Map()
+    private seen: Set<string> = new Set()
+    private subscribers: Set<Subscriber> = new Set()
+    private stopWatching?: () => void
+    private starting?: Promise<void>
+
+    constructor(transport: MessagingTransport, config: MessageBusConfig = {}) {
+        this.transport = transport
+        this.bufferSize = config.bufferSize ?? 200
+        this.bufferAge = config.bufferAge ?? 60 * 60 * 1000
+    }
+
+    /**
+     * The process-wide bus for a transport, created on first use
+     */
+    static shared(transport: MessagingTransport): MessageBus {
+        let bus = shared.get(transport)
+        if (!bus) {
+            bus = new MessageBus(transport)
+            shared.set(transport, bus)
+        }
+        return bus
+    }
+
+    /**
+     * Start watching the transport
+     * Called by subscribe(); the watcher then runs until the last subscriber
+     * leaves, or close().
+     */
+    async start(): Promise<void> {
+        if (this.stopWatching) return
+        this.starting ??= this.transport.watch(message => this.publish(message)).then(
+            stop => {
+                this.stopWatching = stop
+                this.starting = undefined
+            },
+            error => {
+                this.starting = undefined
+                throw error
+            }
+        )
+        await this.starting
+    }
+
+    /**
+     * Receive messages from one chat, or from every chat with null
+     *
+     * @returns Function that unsubscribes the handler
+     */
+    async subscribe(
+        chatId: string | null,
+        handler: MessageHandler,
+        options: SubscribeOptions = {}
+    ): Promise<() => void> {
+        const subscriber: Subscriber = { chatId, handler, queue: Promise.resolve(), active: true }
+        if (options.since) {
+            for (const message of this.recent(chatId, options.since)) {
+                this.enqueue(subscriber, message)
+            }
+        }
+        // Counted before the watcher starts, so an unsubscribe meanwhile doesn't stop it
+        this.subscribers.add(subscriber)
+
+        const unsubscribe = () => {
+            if (!subscriber.active) return
+            subscriber.active = false
+            this.subscribers.delete(subscriber)
+            this.stopIfIdle()
+        }
+
+        try {
+            await this.start()
+        } catch (error) {
+            unsubscribe()
+            throw error
+        }
+        return unsubscribe
+    }
+
+    /**
+     * Buffered messages for a chat (or every chat with null), oldest first
+     */
+    recent(chatId: string | null, since?: Date): IncomingMessage[] {
+        this.prune()
+        const messages = chatId === null
+            ? Array.from(this.buffers.values()).flat().sort((a, b) => a.date.getTime() - b.date.getTime())
+            : [...(this.buffers.get(chatId) ?? [])]
+        return since ? messages.filter(m => m.date >= since) : messages
+    }
+
+    /**
+     * Number of active subscribers
+     */
+    get size(): number {
+        return this.subscribers.size
+    }
+
+    /**
+     * Stop watching and drop subscribers and buffered messages
+     * The transport belongs to the caller and stays open.
+     */
+    close(): void {
+        this.stopWatching?.()
+        this.stopWatching = undefined
+        this.subscribers.forEach(subscriber => { subscriber.active = false })
+        this.subscribers.clear()
+        this.buffers.clear()
+        this.seen.clear()
+        if (shared.get(this.transport) === this) {
+            shared.delete(this.transport)
+        }
+    }
+
+    /**
+     * Stop the watcher once nobody is subscribed; buffered messages are kept
+     */
+    private stopIfIdle(): void {
+        if (this.subscribers.size > 0) return
+        if (this.starting) {
+            this.starting.then(() => this.stopIfIdle(), () => {})
+            return
+        }
+        this.stopWatching?.()
+        this.stopWatching = undefined
+    }
+
+    private publish(message: IncomingMessage): void {
+        // The watcher can report the same message more than once
+        if (message.id && this.seen.has(message.id)) return
+        if (message.id) this.seen.add(message.id)
+
+        const buffer = this.buffers.get(message.chatId) ?? []
+        buffer.push(message)
+        this.buffers.set(message.chatId, buffer)
+        this.prune()
+
+        for (const subscriber of this.subscribers) {
+            if (subscriber.chatId === null || subscriber.chatId === message.chatId) {
+                this.enqueue(subscriber, message)
+            }
+        }
+    }
+
+    private enqueue(subscriber: Subscriber, message: IncomingMessage): void {
+        subscriber.queue = subscriber.queue
+            .then(() => {
+                // Skip what's left if it unsubscribed while earlier messages were handled
+                if (subscriber.active) return subscriber.handler(message)
+            })
+            .catch(error => {
+                console.error(`⚠️  Message handler failed:`, error instanceof Error ? error.message : error)
+            })
+    }
+
+    private prune(): void {
+        const cutoff = Date.now() - this.bufferAge
+        for (const [chatId, buffer] of this.buffers) {
+            const kept = buffer.filter(m => m.date.getTime() >= cutoff).slice(-this.bufferSize)
+            for (const dropped of buffer.filter(m => !kept.includes(m))) {
+                this.seen.delete(dropped.id)
+            }
+            if (kept.length > 0) {
+                this.buffers.set(chatId, kept)
+            } else {
+                this.buffers.delete(chatId)
+            }
+        }
+    }
+}
@@ -0,0 +1,128 @@
+export interface SplitOptions {
+    /** Maximum characters per part, including the "(1/3)" marker (default: 2000) */
+    maxLength?: number
+    /** Append "(n/total)" to every part when the text is split (default: true) */
+    markParts?: boolean
+}
+
+// Room kept free in every part for the "\n(12/34)" marker
+const MARKER_RESERVE = 10
+
+// Lines made only of box-drawing characters, e.g. ━━━━ or ╔════╗
+const DIVIDER_LINE = /^\s*[\u2500-\u257F]{3,}\s*$/
+
+/**
+ * Split a long message into ordered parts that each fit in `maxLength`
+ *
+ * Breaks at section boundaries first (blank lines, then ━━━ dividers,
+ * keeping a heading together with its divider), then at line breaks,
+ * and only cuts inside a line as a last resort.
+ *
+ * @example
+ * splitMessage(finalTimeline, { maxLength: 1000 })
+ * // ['📅 DATE & TIME\n━━━...\n(1/3)', '🍽️  RESTAURANT\n━━━...\n(2/3)', ...]
+ */
+export function splitMessage(text: string, options: SplitOptions = {}): string[] {
+    const maxLength = options.maxLength ?? 2000
+    const markParts = options.markParts ?? true
+
+    if (maxLength <= 0 || text.length <= maxLength) {
+        return [text]
+    }
+
+    const budget = markParts ? maxLength - MARKER_RESERVE : maxLength
+    if (budget <= 0) {
+        throw new Error(`maxLength must be greater than ${MARKER_RESERVE} when parts are marked`)
+    }
+
+    const units = text
+        .split(/\n\s*\n/)
+        .map(block => block.replace(/^\n+/, '').trimEnd())
+        .filter(block => block.trim().length > 0)
+        .flatMap(block => fitBlock(block, budget))
+
+    const parts = pack(units, '\n\n', budget)
+
+    if (!markParts || parts.length === 1) {
+        return parts
+    }
+    return parts.map((part, i) => `${part}\n(${i + 1}/${parts.length})`)
+}
+
+/**
+ * Break a block that is too long into pieces no longer than `budget`
+ */
+function fitBlock(block: string, budget: number): string[] {
+    if (block.length <= budget) {
+        return [block]
+    }
+
+    const sections = splitAtDividers(block)
+    if (sections.length > 1) {
+        return sections.flatMap(section => fitBlock(section, budget))
+    }
+
+    const lines = block.split('\n').flatMap(line => cutLine(line, budget))
+    return pack(lines, '\n', budget)
+}
+
+/**
+ * Split a block before each heading that sits on top of a divider line
+ */
+function splitAtDividers(block: string): string[] {
+    const lines = block.split('\n')
+    const sections: string[][] = [[]]
+
+    lines.forEach((line, i) => {
+        const next = lines[i + 1]
+        const startsSection = next !== undefined &&
+            DIVIDER_LINE.test(next) &&
+            !DIVIDER_LINE.test(line) &&
+            i > 0
+
+        if (startsSection && sections[sections.length - 1].length > 0) {
+            sections.push([])
+        }
+        sections[sections.length - 1].push(line)
+    })
+
+    return sections.map(section => section.join('\n'))
+}
+
+/**
+ * Cut a single over-long line at word boundaries
+ */
+function cutLine(line: string, budget: number): string[] {
+    const pieces: string[] = []
+    let rest = line
+
+    while (rest.length > budget) {
+        let cut = rest.lastIndexOf(' ', budget)
+        if (cut <= 0) cut = budget
+        pieces.push(rest.slice(0, cut).trimEnd())
+        rest = rest.slice(cut).trimStart()
+    }
+    pieces.push(rest)
+    return pieces
+}
+
+/**
+ * Greedily join units into parts no longer than `budget`
+ */
+function pack(units: string[], separator: string, budget: number): string[] {
+    const parts: string[] = []
+    let current = ''
+
+    for (const unit of units) {
+        if (!current) {
+            current = unit
+        } else if (current.length + separator.length + unit.length <= budget) {
+            current += separator + unit
+        } else {
+            parts.push(current)
+            current = unit
+        }
+    }
+    if (current) parts.push(current)
+    return parts
+}
@@ -0,0 +1,403 @@
+import Database from 'better-sqlite3'
+import { mkdirSync } from 'fs'
+import { dirname } from 'path'
+import { splitMessage } from './message-splitter.js'
+import type {
+    GroupInfo,
+    MessageHandler,
+    MessagingTransport,
+    SendOptions
+} from './transport.js'
+
+export interface OutboundQueueConfig {
+    /** SQLite file holding the queue (default: data/outbound-queue.db) */
+    databasePath?: string
+    /** Attempts before a message is dead-lettered (default: 5) */
+    maxAttempts?: number
+    /** First retry delay in ms, doubled on every failure (default: 2000) */
+    baseDelay?: number
+    /** Upper bound for the retry delay in ms (default: 5 minutes) */
+    maxDelay?: number
+    /** Maximum sends per minute across all chats (default: 20) */
+    messagesPerMinute?: number
+    /** How often to check for due messages in ms (default: 1000) */
+    pollInterval?: number
+    /** Split longer text into numbered parts before queueing, 0 disables (default: 2000) */
+    maxMessageLength?: number
+    debug?: boolean
+}
+
+export type QueuedMessageStatus = 'pending' | 'sent' | 'dead'
+
+export interface QueuedMessage {
+    id: number
+    chatId: string
+    message: SendOptions
+    status: QueuedMessageStatus
+    /** Text parts and attachments, each delivered on its own */
+    parts: number
+    /** Parts already delivered; retries start after them */
+    deliveredParts: number
+    attempts: number
+    lastError: string | null
+    nextAttemptAt: Date
+    createdAt: Date
+    sentAt: Date | null
+}
+
+interface QueueRow {
+    id: number
+    chat_id: string
+    payload: string
+    parts: string
+    delivered_parts: number
+    status: QueuedMessageStatus
+    attempts: number
+    last_error: string | null
+    next_attempt_at: number
+    created_at: number
+    sent_at: number | null
+}
+
+/**
+ * Outbound Queue - Durable, rate-limited delivery on top of any transport
+ *
+ * Messages are written to SQLite before sending, so nothing is lost if
+ * Messages.app is busy or the process restarts. Messages to the same chat
+ * go out in order; a failing message is retried with exponential backoff
+ * and dead-lettered after `maxAttempts`.
+ *
+ * Long text and attachments are queued as separate parts, each one a send
+ * against the rate limit. The row records how many went out, so a retry
+ * only sends what is still missing.
+ *
+ * Usage:
+ *   const queue = new OutboundQueue(new IMessageClient())
+ *   await queue.send('chat123...', 'Hello!')   // resolves once persisted
+ *   await queue.flush()                        // wait until delivered
+ */
+export class OutboundQueue implements MessagingTransport {
+    private db: Database.Database
+    private transport: MessagingTransport
+    private maxAttempts: number
+    private baseDelay: number
+    private maxDelay: number
+    private minInterval: number
+    private maxMessageLength: number
+    private pollInterval: number
+    private debug: boolean
+    private timer?: NodeJS.Timeout
+    private running: boolean = false
+    private processing: boolean = false
+    private lastSentAt: number = 0
+    private delivery?: Promise<void>
+
+    constructor(transport: MessagingTransport, config: OutboundQueueConfig = {}) {
+        const databasePath = config.databasePath ?? 'data/outbound-queue.db'
+        if (databasePath !== ':memory:') {
+            mkdirSync(dirname(databasePath), { recursive: true })
+        }
+
+        this.db = new Database(databasePath)
+        this.db.pragma('journal_mode = WAL')
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS outbound_messages (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                chat_id TEXT NOT NULL,
+                payload TEXT NOT NULL,
+                parts TEXT NOT NULL,
+                delivered_parts INTEGER NOT NULL DEFAULT 0,
+                status TEXT NOT NULL DEFAULT 'pending',
+                attempts INTEGER NOT NULL DEFAULT 0,
+                last_error TEXT,
+                next_attempt_at INTEGER NOT NULL,
+                created_at INTEGER NOT NULL,
+                sent_at INTEGER
+            );
+            CREATE INDEX IF NOT EXISTS idx_outbound_status_chat
+                ON outbound_messages (status, chat_id, id);
+        `)
+
+        this.transport = transport
+        this.maxAttempts = config.maxAttempts ?? 5
+        this.baseDelay = config.baseDelay ?? 2000
+        this.maxDelay = config.maxDelay ?? 5 * 60 * 1000
+        this.minInterval = 60000 / (config.messagesPerMinute ?? 20)
+        this.pollInterval = config.pollInterval ?? 1000
+        this.maxMessageLength = config.maxMessageLength ?? 2000
+        this.debug = config.debug ?? false
+    }
+
+    /**
+     * Queue a message for delivery (MessagingTransport)
+     * Resolves once the message is persisted, not when it is delivered.
+     */
+    async send(chatId: string, message: string | SendOptions): Promise<void> {
+        this.enqueue(chatId, message)
+    }
+
+    /**
+     * Persist a message and start the delivery loop if needed
+     */
+    enqueue(chatId: string, message: string | SendOptions): QueuedMessage {
+        const payload: SendOptions = typeof message === 'string' ? { text: message } : message
+        const now = Date.now()
+
+        const result = this.db.prepare(`
+            INSERT INTO outbound_messages (chat_id, payload, parts, next_attempt_at, created_at)
+            VALUES (?, ?, ?, ?, ?)
+        `).run(chatId, JSON.stringify(payload), JSON.stringify(this.splitParts(payload)), now, now)
+
+        this.start()
+        return this.get(Number(result.lastInsertRowid))!
+    }
+
+    /**
+     * Start delivering queued messages (also resumes messages left from a previous run)
+     */
+    start(): void {
+        if (this.running) return
+        this.running = true
+        this.schedule(0)
+    }
+
+    /**
+     * Stop the delivery loop; pending messages stay in the database
+     */
+    stop(): void {
+        this.running = false
+        if (this.timer) {
+            clearTimeout(this.timer)
+            this.timer = undefined
+        }
+    }
+
+    /**
+     * Wait until no pending messages remain
+     *
+     * @param timeout - Give up after this many ms (default: 2 minutes)
+     * @returns true if the queue drained, false on timeout
+     */
+    async flush(timeout: number = 120000): Promise<boolean> {
+        this.start()
+        const startTime = Date.now()
+
+        while (this.countPending() > 0) {
+            if (Date.now() - startTime > timeout) {
+                return false
+            }
+            await new Promise(resolve => setTimeout(resolve, 200))
+        }
+        return true
+    }
+
+    /**
+     * Get a queued message by ID
+     */
+    get(id: number): QueuedMessage | null {
+        const row = this.db.prepare('SELECT * FROM outbound_messages WHERE id = ?').get(id) as QueueRow | undefined
+        return row ? this.toQueuedMessage(row) : null
+    }
+
+    /**
+     * List messages waiting to be delivered, oldest first
+     */
+    listPending(chatId?: string): QueuedMessage[] {
+        return this.listByStatus('pending', chatId)
+    }
+
+    /**
+     * List messages that exhausted their retries
+     */
+    listDeadLetters(chatId?: string): QueuedMessage[] {
+        return this.listByStatus('dead', chatId)
+    }
+
+    /**
+     * Put a dead-lettered message back in the queue with a fresh retry budget
+     * Parts that were already delivered are not sent again.
+     *
+     * @returns true if the message was dead-lettered and is now pending
+     */
+    replay(id: number): boolean {
+        const result = this.db.prepare(`
+            UPDATE outbound_messages
+            SET status = 'pending', attempts = 0, next_attempt_at = ?
+            WHERE id = ? AND status = 'dead'
+        `).run(Date.now(), id)
+
+        if (result.changes > 0) {
+            this.start()
+            return true
+        }
+        return false
+    }
+
+    /**
+     * Replay every dead-lettered message (optionally for one chat)
+     *
+     * @returns Number of messages replayed
+     */
+    replayAll(chatId?: string): number {
+        const dead = this.listDeadLetters(chatId)
+        return dead.filter(message => this.replay(message.id)).length
+    }
+
+    async watch(handler: MessageHandler): Promise<() => void> {
+        return this.transport.watch(handler)
+    }
+
+    async listChats(): Promise<GroupInfo[]> {
+        return this.transport.listChats()
+    }
+
+    /**
+     * Stop delivery, close the database and the wrapped transport
+     * A send already under way finishes and is recorded first.
+     */
+    async close(): Promise<void> {
+        this.stop()
+        await this.delivery
+        this.db.close()
+        await this.transport.close()
+    }
+
+    private schedule(delay: number): void {
+        if (!this.running) return
+        if (this.timer) clearTimeout(this.timer)
+        this.timer = setTimeout(() => {
+            this.timer = undefined
+            this.delivery = this.processNext().catch(error => console.error('❌ Outbound queue delivery failed:', error))
+        }, delay)
+    }
+
+    private async processNext(): Promise<void> {
+        if (!this.running || this.processing) return
+
+        // Respect the send rate across all chats
+        const wait = this.lastSentAt + this.minInterval - Date.now()
+        if (wait > 0) {
+            this.schedule(wait)
+            return
+        }
+
+        // Only the oldest pending message of each chat is eligible,
+        // so a message in backoff holds back the rest of its chat
+        const row = this.db.prepare(`
+            SELECT * FROM outbound_messages m
+            WHERE status = 'pending'
+              AND id = (
+                  SELECT MIN(id) FROM outbound_messages
+                  WHERE chat_id = m.chat_id AND status = 'pending'
+              )
+              AND next_attempt_at <= ?
+            ORDER BY next_attempt_at, id
+            LIMIT 1
+        `).get(Date.now()) as QueueRow | undefined
+
+        if (!row) {
+            this.schedule(this.pollInterval)
+            return
+        }
+
+        this.processing = true
+        const message = this.toQueuedMessage(row)
+        const parts: SendOptions[] = JSON.parse(row.parts)
+        const part = parts[row.delivered_parts]
+
+        try {
+            // One part per tick, so every part counts against the send rate
+            if (part) {
+                this.lastSentAt = Date.now()
+                await this.transport.send(message.chatId, part)
+            }
+
+            const delivered = part ? row.delivered_parts + 1 : parts.length
+            if (delivered < parts.length) {
+                this.db.prepare('UPDATE outbound_messages SET delivered_parts = ? WHERE id = ?').run(delivered, message.id)
+            } else {
+                this.db.prepare(`
+                    UPDATE outbound_messages
+                    SET status = 'sent', delivered_parts = ?, attempts = attempts + 1, sent_at = ?, last_error = NULL
+                    WHERE id = ?
+                `).run(delivered, Date.now(), message.id)
+            }
+        } catch (error) {
+            this.recordFailure(message, error)
+        } finally {
+            this.processing = false
+        }
+
+        this.schedule(0)
+    }
+
+    private recordFailure(message: QueuedMessage, error: unknown): void {
+        const attempts = message.attempts + 1
+        const reason = error instanceof Error ? error.message : String(error)
+
+        if (attempts >= this.maxAttempts) {
+            this.db.prepare(`
+                UPDATE outbound_messages
+                SET status = 'dead', attempts = ?, last_error = ?
+                WHERE id = ?
+            `).run(attempts, reason, message.id)
+            console.error(`❌ Message ${message.id} to ${message.chatId} dead-lettered after ${attempts} attempts: ${reason}`)
+            return
+        }
+
+        const delay = Math.min(this.maxDelay, this.baseDelay * 2 ** (attempts - 1))
+        this.db.prepare(`
+            UPDATE outbound_messages
+            SET attempts = ?, last_error = ?, next_attempt_at = ?
+            WHERE id = ?
+        `).run(attempts, reason, Date.now() + delay, message.id)
+
+        if (this.debug) {
+            console.log(`⚠️  Message ${message.id} failed (attempt ${attempts}/${this.maxAttempts}), retrying in ${delay / 1000}s`)
+        }
+    }
+
+    /**
+     * Break a message into the pieces delivered one by one: each text part, then each attachment
+     */
+    private splitParts(message: SendOptions): SendOptions[] {
+        const text = message.text
+            ? splitMessage(message.text, { maxLength: this.maxMessageLength }).map(part => ({ text: part }))
+            : []
+        return [
+            ...text,
+            ...(message.images || []).map(image => ({ images: [image] })),
+            ...(message.files || []).map(file => ({ files: [file] }))
+        ]
+    }
+
+    private countPending(): number {
+        const row = this.db.prepare(
+            `SELECT COUNT(*) AS count FROM outbound_messages WHERE status = 'pending'`
+        ).get() as { count: number }
+        return row.count
+    }
+
+    private listByStatus(status: QueuedMessageStatus, chatId?: string): QueuedMessage[] {
+        const rows = chatId
+            ? this.db.prepare('SELECT * FROM outbound_messages WHERE status = ? AND chat_id = ? ORDER BY id').all(status, chatId)
+            : this.db.prepare('SELECT * FROM outbound_messages WHERE status = ? ORDER BY id').all(status)
+        return (rows as QueueRow[]).map(row => this.toQueuedMessage(row))
+    }
+
+    private toQueuedMessage(row: QueueRow): QueuedMessage {
+        return {
+            id: row.id,
+            chatId: row.chat_id,
+            message: JSON.parse(row.payload),
+            status: row.status,
+            parts: JSON.parse(row.parts).length,
+            deliveredParts: row.delivered_parts,
+            attempts: row.attempts,
+            lastError: row.last_error,
+            nextAttemptAt: new Date(row.next_attempt_at),
+            createdAt: new Date(row.created_at),
+            sentAt: row.sent_at !== null ? new Date(row.sent_at) : null
+        }
+    }
+}
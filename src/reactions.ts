@@ -0,0 +1,79 @@
+import type { MessageReaction, MessageReference, ReactionType } from './transport.js'
+
+// chat.db associated_message_type: 2000-2005 add a tapback, 3000-3005 remove it
+const REACTION_TYPES: ReactionType[] = ['love', 'like', 'dislike', 'laugh', 'emphasize', 'question']
+
+// How Messages describes tapbacks as text ("Liked “See you at 6”")
+const ADDED_VERBS: Record<string, ReactionType> = {
+    'loved': 'love',
+    'liked': 'like',
+    'disliked': 'dislike',
+    'laughed at': 'laugh',
+    'emphasized': 'emphasize',
+    'questioned': 'question'
+}
+
+const REMOVED_NOUNS: Record<string, ReactionType> = {
+    'a heart': 'love',
+    'a like': 'like',
+    'a dislike': 'dislike',
+    'a laugh': 'laugh',
+    'an exclamation': 'emphasize',
+    'a question mark': 'question'
+}
+
+/**
+ * Map a chat.db associated_message_type to a tapback
+ *
+ * @returns null for normal messages and reactions we don't understand
+ */
+export function reactionFromCode(code: number): { type: ReactionType; removed: boolean } | null {
+    const removed = code >= 3000
+    const type = REACTION_TYPES[code - (removed ? 3000 : 2000)]
+    return type ? { type, removed } : null
+}
+
+/**
+ * Recognise a tapback from the text Messages shows for it,
+ * for when only the watcher's text is available
+ *
+ * The target has no ID and its text may be truncated by Messages.
+ */
+export function parseReactionText(text: string): MessageReaction | null {
+    const match = text.match(/^(.+?) [“"](.*)[”"]$/s)
+    if (!match) return null
+
+    const [, action, quoted] = match
+    const lower = action.toLowerCase()
+    const removedNoun = lower.startsWith('removed ') && lower.endsWith(' from')
+        ? lower.slice('removed '.length, -' from'.length)
+        : null
+
+    const type = removedNoun !== null ? REMOVED_NOUNS[removedNoun] : ADDED_VERBS[lower]
+    if (!type) return null
+
+    return {
+        type,
+        removed: removedNoun !== null,
+        target: { id: '', text: quoted, isFromMe: true }
+    }
+}
+
+/**
+ * Whether a referenced message (tapback target, thread parent) is one we
+ * sent with the given text
+ * Messages truncates long quotes with "…", so a matching prefix counts.
+ */
+export function isReferenceTo(reference: MessageReference, sentText: string): boolean {
+    if (!reference.isFromMe) return false
+
+    const quoted = reference.text.replace(/…$/, '').trim()
+    return quoted.length > 0 && sentText.trim().startsWith(quoted)
+}
+
+/**
+ * Whether a tapback targets a message we sent with the given text
+ */
+export function isReactionTo(reaction: MessageReaction, sentText: string): boolean {
+    return isReferenceTo(reaction.target, sentText)
+}
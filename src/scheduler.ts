@@ -0,0 +1,273 @@
+import Database from 'better-sqlite3'
+import { mkdirSync } from 'fs'
+import { dirname } from 'path'
+import type { MessagingTransport, SendOptions } from './transport.js'
+
+export interface SchedulerConfig {
+    /** SQLite file holding scheduled messages (default: data/scheduler.db) */
+    databasePath?: string
+    debug?: boolean
+}
+
+export type ScheduledMessageStatus = 'pending' | 'sent' | 'failed' | 'cancelled'
+
+export interface ScheduledMessage {
+    id: number
+    chatId: string
+    message: SendOptions
+    sendAt: Date
+    status: ScheduledMessageStatus
+    lastError: string | null
+    createdAt: Date
+    sentAt: Date | null
+}
+
+interface ScheduleRow {
+    id: number
+    chat_id: string
+    payload: string
+    send_at: number
+    status: ScheduledMessageStatus
+    last_error: string | null
+    created_at: number
+    sent_at: number | null
+}
+
+// setTimeout can't wait longer than ~24.8 days
+const MAX_TIMER_DELAY = 2 ** 31 - 1
+
+/**
+ * Message Scheduler - Send messages at a later time, surviving restarts
+ *
+ * Jobs are stored in SQLite. On start(), jobs whose time passed while the
+ * process was down are sent right away. Wrap the transport in an
+ * OutboundQueue if failed sends should be retried.
+ *
+ * Usage:
+ *   const scheduler = new MessageScheduler(client)
+ *   scheduler.start()
+ *   scheduler.scheduleSend('family', '⏰ Reminder: outing tomorrow!', fridayAt6pm)
+ */
+export class MessageScheduler {
+    private db: Database.Database
+    private transport: MessagingTransport
+    private debug: boolean
+    private timer?: NodeJS.Timeout
+    private running: boolean = false
+    private firing: boolean = false
+    private firingDone?: Promise<void>
+
+    constructor(transport: MessagingTransport, config: SchedulerConfig = {}) {
+        const databasePath = config.databasePath ?? 'data/scheduler.db'
+        if (databasePath !== ':memory:') {
+            mkdirSync(dirname(databasePath), { recursive: true })
+        }
+
+        this.db = new Database(databasePath)
+        this.db.pragma('journal_mode = WAL')
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS scheduled_messages (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                chat_id TEXT NOT NULL,
+                payload TEXT NOT NULL,
+                send_at INTEGER NOT NULL,
+                status TEXT NOT NULL DEFAULT 'pending',
+                last_error TEXT,
+                created_at INTEGER NOT NULL,
+                sent_at INTEGER
+            );
+            CREATE INDEX IF NOT EXISTS idx_scheduled_status_send_at
+                ON scheduled_messages (status, send_at);
+        `)
+
+        this.transport = transport
+        this.debug = config.debug ?? false
+    }
+
+    /**
+     * Schedule a message for a specific time
+     *
+     * @param chatId - Chat ID, group alias or phone number
+     * @param message - Text message or object with text/images/files
+     * @param at - When to send; past times are sent on the next check
+     */
+    scheduleSend(chatId: string, message: string | SendOptions, at: Date): ScheduledMessage {
+        if (isNaN(at.getTime())) {
+            throw new Error('Invalid send time')
+        }
+
+        const payload: SendOptions = typeof message === 'string' ? { text: message } : message
+        const result = this.db.prepare(`
+            INSERT INTO scheduled_messages (chat_id, payload, send_at, created_at)
+            VALUES (?, ?, ?, ?)
+        `).run(chatId, JSON.stringify(payload), at.getTime(), Date.now())
+
+        console.log(`⏰ Scheduled message for ${chatId} at ${at.toLocaleString()}`)
+        this.reschedule()
+        return this.get(Number(result.lastInsertRowid))!
+    }
+
+    /**
+     * Schedule a message after a delay
+     *
+     * @param delay - Milliseconds from now
+     */
+    scheduleAfter(chatId: string, message: string | SendOptions, delay: number): ScheduledMessage {
+        return this.scheduleSend(chatId, message, new Date(Date.now() + delay))
+    }
+
+    /**
+     * Get a scheduled message by ID
+     */
+    get(id: number): ScheduledMessage | null {
+        const row = this.db.prepare('SELECT * FROM scheduled_messages WHERE id = ?').get(id) as ScheduleRow | undefined
+        return row ? this.toScheduledMessage(row) : null
+    }
+
+    /**
+     * List scheduled messages, soonest first
+     *
+     * @param filter - Status (default: pending) and optional chat ID
+     */
+    list(filter: { status?: ScheduledMessageStatus; chatId?: string } = {}): ScheduledMessage[] {
+        const status = filter.status ?? 'pending'
+        const rows = filter.chatId
+            ? this.db.prepare('SELECT * FROM scheduled_messages WHERE status = ? AND chat_id = ? ORDER BY send_at, id').all(status, filter.chatId)
+            : this.db.prepare('SELECT * FROM scheduled_messages WHERE status = ? ORDER BY send_at, id').all(status)
+        return (rows as ScheduleRow[]).map(row => this.toScheduledMessage(row))
+    }
+
+    /**
+     * Cancel a pending message
+     *
+     * @returns true if the message was pending and is now cancelled
+     */
+    cancel(id: number): boolean {
+        const result = this.db.prepare(`
+            UPDATE scheduled_messages SET status = 'cancelled'
+            WHERE id = ? AND status = 'pending'
+        `).run(id)
+
+        if (result.changes > 0) {
+            this.reschedule()
+            return true
+        }
+        return false
+    }
+
+    /**
+     * Start firing jobs; anything overdue is sent immediately
+     */
+    start(): void {
+        if (this.running) return
+        this.running = true
+
+        const overdue = this.countDue()
+        if (overdue > 0) {
+            console.log(`⏰ ${overdue} scheduled message(s) were due while offline, sending now`)
+        }
+        this.reschedule()
+    }
+
+    /**
+     * Stop firing jobs; pending jobs stay in the database
+     */
+    stop(): void {
+        this.running = false
+        if (this.timer) {
+            clearTimeout(this.timer)
+            this.timer = undefined
+        }
+    }
+
+    /**
+     * Stop and close the database (the transport is left open)
+     * A send already under way finishes and is recorded first.
+     */
+    async close(): Promise<void> {
+        this.stop()
+        await this.firingDone
+        this.db.close()
+    }
+
+    /**
+     * Set one timer for the next pending job
+     */
+    private reschedule(): void {
+        if (!this.running) return
+        if (this.timer) clearTimeout(this.timer)
+        this.timer = undefined
+
+        const next = this.db.prepare(`
+            SELECT MIN(send_at) AS sendAt FROM scheduled_messages WHERE status = 'pending'
+        `).get() as { sendAt: number | null }
+
+        if (next.sendAt === null) return
+
+        const delay = Math.min(Math.max(next.sendAt - Date.now(), 0), MAX_TIMER_DELAY)
+        this.timer = setTimeout(() => {
+            this.timer = undefined
+            this.firingDone = this.fireDue().catch(error => console.error('❌ Scheduled delivery failed:', error))
+        }, delay)
+    }
+
+    private async fireDue(): Promise<void> {
+        if (!this.running || this.firing) return
+        this.firing = true
+
+        try {
+            const due = this.db.prepare(`
+                SELECT * FROM scheduled_messages
+                WHERE status = 'pending' AND send_at <= ?
+                ORDER BY send_at, id
+            `).all(Date.now()) as ScheduleRow[]
+
+            for (const row of due) {
+                // Skip jobs cancelled while earlier ones were sending
+                const current = this.get(row.id)
+                if (!this.running || current?.status !== 'pending') continue
+
+                const job = this.toScheduledMessage(row)
+                try {
+                    await this.transport.send(job.chatId, job.message)
+                    this.db.prepare(`
+                        UPDATE scheduled_messages SET status = 'sent', sent_at = ? WHERE id = ?
+                    `).run(Date.now(), job.id)
+                    if (this.debug) {
+                        console.log(`✅ Scheduled message ${job.id} sent to ${job.chatId}`)
+                    }
+                } catch (error) {
+                    const reason = error instanceof Error ? error.message : String(error)
+                    this.db.prepare(`
+                        UPDATE scheduled_messages SET status = 'failed', last_error = ? WHERE id = ?
+                    `).run(reason, job.id)
+                    console.error(`❌ Scheduled message ${job.id} to ${job.chatId} failed: ${reason}`)
+                }
+            }
+        } finally {
+            this.firing = false
+        }
+
+        this.reschedule()
+    }
+
+    private countDue(): number {
+        const row = this.db.prepare(`
+            SELECT COUNT(*) AS count FROM scheduled_messages WHERE status = 'pending' AND send_at <= ?
+        `).get(Date.now()) as { count: number }
+        return row.count
+    }
+
+    private toScheduledMessage(row: ScheduleRow): ScheduledMessage {
+        return {
+            id: row.id,
+            chatId: row.chat_id,
+            message: JSON.parse(row.payload),
+            sendAt: new Date(row.send_at),
+            status: row.status,
+            lastError: row.last_error,
+            createdAt: new Date(row.created_at),
+            sentAt: row.sent_at !== null ? new Date(row.sent_at) : null
+        }
+    }
+}
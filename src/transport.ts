@@ -0,0 +1,75 @@
+export interface SendOptions {
+    text?: string
+    images?: string[]
+    files?: string[]
+}
+
+export interface GroupInfo {
+    chatId: string
+    name: string
+    members: string[]
+    createdAt: Date | null
+    lastMessageAt: Date | null
+    unreadCount: number
+}
+
+export type ReactionType = 'love' | 'like' | 'dislike' | 'laugh' | 'emphasize' | 'question'
+
+export interface MessageReference {
+    id: string
+    text: string
+    isFromMe: boolean
+}
+
+export interface MessageReaction {
+    type: ReactionType
+    /** True when the sender took the tapback back */
+    removed: boolean
+    /** The message that was reacted to */
+    target: MessageReference
+}
+
+export interface IncomingMessage {
+    id: string
+    chatId: string
+    sender: string
+    text: string
+    isFromMe: boolean
+    date: Date
+    /** Set when this message is a tapback rather than a text reply */
+    reaction?: MessageReaction
+    /** Set when this message was sent as a threaded reply */
+    replyTo?: MessageReference
+}
+
+export type MessageHandler = (message: IncomingMessage) => void | Promise<void>
+
+/**
+ * Messaging Transport - Everything the planner needs from a chat backend
+ *
+ * IMessageClient implements this on macOS; InMemoryTransport implements it
+ * for simulated groups so planning sessions can run anywhere.
+ */
+export interface MessagingTransport {
+    /**
+     * Send a message (text, images, or files) to a chat
+     */
+    send(chatId: string, message: string | SendOptions): Promise<void>
+
+    /**
+     * Watch incoming messages from all chats
+     *
+     * @returns Function that stops this handler from receiving messages
+     */
+    watch(handler: MessageHandler): Promise<() => void>
+
+    /**
+     * List the group chats available on this transport
+     */
+    listChats(): Promise<GroupInfo[]>
+
+    /**
+     * Stop watching and release resources
+     */
+    close(): Promise<void>
+}